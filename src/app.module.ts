@@ -2,6 +2,7 @@ import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { BullModule } from '@nestjs/bull';
+import configuration from './common/config/configuration';
 
 // Import our custom modules
 import { WebhookModule } from './modules/webhook/webhook.module';
@@ -9,9 +10,11 @@ import { CodeAnalysisModule } from './modules/code-analysis/code-analysis.module
 import { QueueModule } from './modules/queue/queue.module';
 import { GithubModule } from './modules/github/github.module';
 import { DatabaseModule } from './modules/database/database.module';
+import { ChatOpsModule } from './modules/chatops/chatops.module';
+import { ReviewsModule } from './modules/reviews/reviews.module';
 
 // Import entities
-import { Review, ReviewComment } from './entities';
+import { Review, ReviewComment, RuleSuppression, WebhookDelivery } from './entities';
 
 @Module({
   imports: [
@@ -19,6 +22,7 @@ import { Review, ReviewComment } from './entities';
     ConfigModule.forRoot({
       isGlobal: true,
       envFilePath: '.env',
+      load: [configuration],
     }),
 
     // Database configuration
@@ -29,7 +33,7 @@ import { Review, ReviewComment } from './entities';
       username: process.env.DB_USERNAME || 'postgres',
       password: process.env.DB_PASSWORD || 'password',
       database: process.env.DB_NAME || 'code_review_agent',
-      entities: [Review, ReviewComment],
+      entities: [Review, ReviewComment, WebhookDelivery, RuleSuppression],
       synchronize: process.env.NODE_ENV !== 'production', // Only in development
       logging: process.env.NODE_ENV === 'development',
     }),
@@ -49,6 +53,8 @@ import { Review, ReviewComment } from './entities';
     CodeAnalysisModule,
     QueueModule,
     GithubModule,
+    ChatOpsModule,
+    ReviewsModule,
   ],
 })
 export class AppModule {}
\ No newline at end of file
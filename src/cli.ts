@@ -0,0 +1,53 @@
+import { NestFactory } from '@nestjs/core';
+import { ConsoleLogger, LogLevel } from '@nestjs/common';
+import { CliModule } from './modules/cli/cli.module';
+import { parseCliArgs, USAGE, UsageError } from './modules/cli/cli-options';
+import { LocalReviewService } from './modules/cli/local-review.service';
+import { formatReport } from './modules/cli/report-formatter';
+
+const EXIT_FAILED = 1;
+const EXIT_ERROR = 2;
+
+// Standard output carries only the report, so logs go to standard error
+class StderrLogger extends ConsoleLogger {
+  protected printMessages(messages: unknown[], context?: string, logLevel?: LogLevel): void {
+    super.printMessages(messages, context, logLevel, 'stderr');
+  }
+}
+
+async function run(): Promise<number> {
+  let options: ReturnType<typeof parseCliArgs>;
+  try {
+    options = parseCliArgs(process.argv.slice(2));
+  } catch (error) {
+    if (!(error instanceof UsageError)) throw error;
+    process.stderr.write(`${error.message}\n\n${USAGE}`);
+    return EXIT_ERROR;
+  }
+
+  if (!options) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+
+  const logger = new StderrLogger();
+  logger.setLogLevels(options.verbose ? ['error', 'warn', 'log'] : ['error', 'warn']);
+
+  const app = await NestFactory.createApplicationContext(CliModule, { logger });
+  try {
+    const result = await app.get(LocalReviewService).review(options);
+    process.stdout.write(`${formatReport(result, options.format)}\n`);
+    return result.failed ? EXIT_FAILED : 0;
+  } finally {
+    await app.close();
+  }
+}
+
+run()
+  .then(code => {
+    process.exitCode = code;
+  })
+  .catch(error => {
+    process.stderr.write(`Review failed: ${error instanceof Error ? error.message : 'Unknown error'}\n`);
+    process.exitCode = EXIT_ERROR;
+  });
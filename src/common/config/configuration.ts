@@ -1,5 +1,21 @@
 import { AppConfig } from '../interfaces/config.interface';
 
+// Tokens of the analysis prompt around the diff, repository instructions included
+const PROMPT_OVERHEAD_TOKENS = 1000;
+
+/**
+ * Diff tokens per analysis request. A request must fit the model's context
+ * window together with the prompt and the response, so larger budgets are
+ * lowered to what is left of it.
+ */
+function chunkTokenBudget(maxTokens: number): number {
+  const contextTokens = parseInt(process.env.AI_CONTEXT_TOKENS || '8192', 10);
+  const available = contextTokens - maxTokens - PROMPT_OVERHEAD_TOKENS;
+  const configured = parseInt(process.env.AI_CHUNK_TOKEN_BUDGET || `${available}`, 10);
+
+  return Math.min(configured, available);
+}
+
 export default (): AppConfig => ({
   port: parseInt(process.env.PORT ?? '3000', 10),
   nodeEnv: process.env.NODE_ENV || 'development',
@@ -23,15 +39,31 @@ export default (): AppConfig => ({
     token: process.env.GITHUB_TOKEN || '',
     appId: process.env.GITHUB_APP_ID,
     privateKey: process.env.GITHUB_PRIVATE_KEY,
+    commentSyncIntervalMinutes: parseInt(process.env.GITHUB_COMMENT_SYNC_INTERVAL ?? '30', 10),
+    codeScanningUpload: process.env.GITHUB_CODE_SCANNING_UPLOAD === 'true',
+  },
+
+  gitlab: {
+    url: (process.env.GITLAB_URL || 'https://gitlab.com').replace(/\/+$/, ''),
+    token: process.env.GITLAB_TOKEN || '',
+    webhookSecret: process.env.GITLAB_WEBHOOK_SECRET || '',
+  },
+
+  api: {
+    keys: (process.env.API_KEYS || '').split(',').map(key => key.trim()).filter(Boolean),
   },
 
   ai: {
     provider: (process.env.AI_PROVIDER as 'openai' | 'anthropic') || 'openai',
     openaiApiKey: process.env.OPENAI_API_KEY,
     openaiModel: process.env.OPENAI_MODEL || 'gpt-4',
+    openaiBaseUrl: process.env.OPENAI_BASE_URL || undefined,
     anthropicApiKey: process.env.ANTHROPIC_API_KEY,
     anthropicModel: process.env.ANTHROPIC_MODEL || 'claude-3-sonnet-20240229',
     maxTokens: parseInt(process.env.MAX_TOKENS ?? '4000', 10),
     temperature: parseFloat(process.env.TEMPERATURE ?? '0.3'),
+    chunkTokenBudget: chunkTokenBudget(parseInt(process.env.MAX_TOKENS ?? '4000', 10)),
+    maxConcurrency: parseInt(process.env.AI_MAX_CONCURRENCY ?? '3', 10),
+    repairAttempts: parseInt(process.env.AI_REPAIR_ATTEMPTS ?? '1', 10),
   },
 });
\ No newline at end of file
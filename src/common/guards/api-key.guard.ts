@@ -0,0 +1,43 @@
+import { CanActivate, ExecutionContext, Injectable, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Request } from 'express';
+import * as crypto from 'crypto';
+import { AppConfig } from '../interfaces/config.interface';
+
+/**
+ * Accepts requests carrying one of the configured `API_KEYS`, either as
+ * `Authorization: Bearer <key>` or in the `X-API-Key` header. Without
+ * configured keys every request is rejected.
+ */
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  constructor(private readonly configService: ConfigService<AppConfig, true>) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<Request>();
+    const key = this.extractKey(request);
+
+    const { keys } = this.configService.get('api', { infer: true });
+    if (!key || !keys.some(candidate => safeEqual(candidate, key))) {
+      throw new UnauthorizedException('Invalid API key');
+    }
+
+    return true;
+  }
+
+  private extractKey(request: Request): string | undefined {
+    const [scheme, token] = (request.headers.authorization ?? '').split(' ');
+    if (scheme?.toLowerCase() === 'bearer' && token) {
+      return token;
+    }
+
+    const header = request.headers['x-api-key'];
+    return typeof header === 'string' ? header : undefined;
+  }
+}
+
+/** Constant-time comparison; hashing first makes lengths equal */
+function safeEqual(a: string, b: string): boolean {
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(digest(a), digest(b));
+}
@@ -17,16 +17,38 @@ export interface GithubConfig {
   token: string;
   appId?: string;
   privateKey?: string;
+  /** Minutes between review-thread state syncs; 0 disables them */
+  commentSyncIntervalMinutes: number;
+  /** Upload each review's findings to GitHub code scanning as SARIF */
+  codeScanningUpload: boolean;
+}
+
+export interface GitlabConfig {
+  /** Base URL of the GitLab instance */
+  url: string;
+  token: string;
+  /** Compared with the `X-Gitlab-Token` header of webhook requests */
+  webhookSecret: string;
+}
+
+export interface ApiConfig {
+  /** Keys accepted by the authenticated API endpoints; none disables them */
+  keys: string[];
 }
 
 export interface AIConfig {
   provider: 'openai' | 'anthropic';
   openaiApiKey?: string;
   openaiModel?: string;
+  /** Base URL of an OpenAI-compatible API, e.g. a self-hosted model server */
+  openaiBaseUrl?: string;
   anthropicApiKey?: string;
   anthropicModel?: string;
   maxTokens: number;
   temperature: number;
+  chunkTokenBudget: number;
+  maxConcurrency: number;
+  repairAttempts: number;
 }
 
 export interface AppConfig {
@@ -35,5 +57,7 @@ export interface AppConfig {
   database: DatabaseConfig;
   redis: RedisConfig;
   github: GithubConfig;
+  gitlab: GitlabConfig;
+  api: ApiConfig;
   ai: AIConfig;
 }
\ No newline at end of file
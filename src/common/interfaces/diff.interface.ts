@@ -0,0 +1,34 @@
+export type DiffLineType = 'added' | 'removed' | 'context';
+
+export interface DiffLine {
+  type: DiffLineType;
+  content: string;
+  oldLineNumber?: number;
+  newLineNumber?: number;
+}
+
+export interface DiffHunk {
+  header: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export type DiffFileStatus = 'added' | 'deleted' | 'modified' | 'renamed';
+
+export interface DiffFile {
+  oldPath: string | null;
+  newPath: string | null;
+  /** Path used to report findings: the new path, or the old one for deletions */
+  path: string;
+  status: DiffFileStatus;
+  isBinary: boolean;
+  hunks: DiffHunk[];
+}
+
+export interface ParsedDiff {
+  files: DiffFile[];
+  raw: string;
+}
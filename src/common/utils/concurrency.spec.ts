@@ -0,0 +1,42 @@
+import { mapWithConcurrency } from './concurrency';
+
+describe('mapWithConcurrency', () => {
+  it('keeps the input order', async () => {
+    const delays = [30, 10, 20];
+
+    const results = await mapWithConcurrency(delays, 3, async (delay, index) => {
+      await new Promise(resolve => setTimeout(resolve, delay));
+      return index;
+    });
+
+    expect(results).toEqual([0, 1, 2]);
+  });
+
+  it('runs at most `limit` calls at once', async () => {
+    let running = 0;
+    let peak = 0;
+
+    await mapWithConcurrency([1, 2, 3, 4, 5], 2, async () => {
+      peak = Math.max(peak, ++running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+    });
+
+    expect(peak).toBe(2);
+  });
+
+  it.each([0, -1, NaN])('runs one call at a time for a limit of %p', async limit => {
+    let running = 0;
+    let peak = 0;
+
+    const results = await mapWithConcurrency([1, 2, 3], limit, async item => {
+      peak = Math.max(peak, ++running);
+      await new Promise(resolve => setTimeout(resolve, 1));
+      running--;
+      return item * 2;
+    });
+
+    expect(results).toEqual([2, 4, 6]);
+    expect(peak).toBe(1);
+  });
+});
@@ -0,0 +1,25 @@
+/**
+ * Maps items through an async function with at most `limit` calls in flight,
+ * preserving input order in the result. Limits below 1, or not a number,
+ * run one call at a time.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit >= 1 ? limit : 1, items.length)) }, () => worker());
+  await Promise.all(workers);
+
+  return results;
+}
@@ -0,0 +1,106 @@
+import { getAddedLines, isCommentableLine, parseHunks, parseUnifiedDiff } from './diff-parser';
+
+const DIFF = [
+  'diff --git a/src/app.ts b/src/app.ts',
+  'index 1111111..2222222 100644',
+  '--- a/src/app.ts',
+  '+++ b/src/app.ts',
+  '@@ -1,4 +1,5 @@',
+  ' import { a } from \'./a\';',
+  '-const b = 1;',
+  '+const b = 2;',
+  '+const c = 3;',
+  ' ',
+  ' export { a, b };',
+  '@@ -10,2 +11,2 @@ function run() {',
+  '-  return a;',
+  '+  return b;',
+  ' }',
+  '\\ No newline at end of file',
+  'diff --git a/README.md b/docs/README.md',
+  'similarity index 90%',
+  'rename from README.md',
+  'rename to docs/README.md',
+  'diff --git a/logo.png b/logo.png',
+  'new file mode 100644',
+  'Binary files /dev/null and b/logo.png differ',
+  '',
+].join('\n');
+
+describe('parseUnifiedDiff', () => {
+  it('parses files with their status', () => {
+    const { files } = parseUnifiedDiff(DIFF);
+
+    expect(files.map(file => [file.path, file.status, file.isBinary])).toEqual([
+      ['src/app.ts', 'modified', false],
+      ['docs/README.md', 'renamed', false],
+      ['logo.png', 'added', true],
+    ]);
+    expect(files[1].oldPath).toBe('README.md');
+  });
+
+  it('numbers lines on both sides of each hunk', () => {
+    const [file] = parseUnifiedDiff(DIFF).files;
+
+    expect(file.hunks).toHaveLength(2);
+    expect(file.hunks[0].lines).toEqual([
+      { type: 'context', content: 'import { a } from \'./a\';', oldLineNumber: 1, newLineNumber: 1 },
+      { type: 'removed', content: 'const b = 1;', oldLineNumber: 2 },
+      { type: 'added', content: 'const b = 2;', newLineNumber: 2 },
+      { type: 'added', content: 'const c = 3;', newLineNumber: 3 },
+      { type: 'context', content: '', oldLineNumber: 3, newLineNumber: 4 },
+      { type: 'context', content: 'export { a, b };', oldLineNumber: 4, newLineNumber: 5 },
+    ]);
+    expect(file.hunks[1].lines.map(line => [line.type, line.oldLineNumber, line.newLineNumber])).toEqual([
+      ['removed', 10, undefined],
+      ['added', undefined, 11],
+      ['context', 11, 12],
+    ]);
+  });
+
+  it('ends a hunk at the line counts in its header', () => {
+    const patch = [
+      'diff --git a/a.ts b/a.ts',
+      '--- a/a.ts',
+      '+++ b/a.ts',
+      '@@ -1 +1 @@',
+      '-old',
+      '+new',
+      '--- not part of the hunk',
+      '+++ nor this',
+    ].join('\n');
+
+    const [file] = parseUnifiedDiff(patch).files;
+
+    expect(file.hunks[0].lines.map(line => line.content)).toEqual(['old', 'new']);
+  });
+
+  it('reads empty lines inside a hunk as context', () => {
+    const [file] = parseUnifiedDiff('diff --git a/a.ts b/a.ts\n@@ -1,3 +1,3 @@\n a\n\n-b\n+c\n').files;
+
+    expect(file.hunks[0].lines.map(line => line.type)).toEqual(['context', 'context', 'removed', 'added']);
+  });
+});
+
+describe('parseHunks', () => {
+  it('parses a patch without file headers', () => {
+    const hunks = parseHunks('@@ -0,0 +1,2 @@\n+first\n+second');
+
+    expect(hunks).toHaveLength(1);
+    expect(hunks[0].lines.map(line => line.newLineNumber)).toEqual([1, 2]);
+  });
+});
+
+describe('line mapping', () => {
+  const [file] = parseUnifiedDiff(DIFF).files;
+
+  it('lists added lines in order', () => {
+    expect(getAddedLines(file).map(line => line.newLineNumber)).toEqual([2, 3, 11]);
+  });
+
+  it('accepts comments on added and context lines only', () => {
+    expect(isCommentableLine(file.hunks, 3)).toBe(true);
+    expect(isCommentableLine(file.hunks, 5)).toBe(true);
+    expect(isCommentableLine(file.hunks, 8)).toBe(false);
+  });
+});
@@ -0,0 +1,197 @@
+import {
+  DiffFile,
+  DiffHunk,
+  DiffLine,
+  ParsedDiff,
+} from '../interfaces/diff.interface';
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Parses a git unified diff (as returned by GitHub's `diff` media type)
+ * into files, hunks and lines with old/new line numbers.
+ */
+export function parseUnifiedDiff(raw: string): ParsedDiff {
+  const files: DiffFile[] = [];
+  const lines = raw.split('\n');
+  let current: DiffFile | null = null;
+  let hunk: DiffHunk | null = null;
+
+  for (const line of lines) {
+    if (line.startsWith('diff --git ')) {
+      current = startFile(line);
+      files.push(current);
+      hunk = null;
+      continue;
+    }
+
+    if (!current) continue;
+
+    if (hunk && isHunkBodyLine(hunk, line)) {
+      appendHunkLine(hunk, line);
+      continue;
+    }
+
+    if (line.startsWith('@@')) {
+      hunk = startHunk(line);
+      if (hunk) current.hunks.push(hunk);
+      continue;
+    }
+
+    applyFileHeader(current, line);
+  }
+
+  return { files, raw };
+}
+
+/**
+ * Parses the hunks of a single-file patch, e.g. the `patch` field returned
+ * by `pulls.listFiles`, which carries no `diff --git` header.
+ */
+export function parseHunks(patch: string): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let hunk: DiffHunk | null = null;
+
+  for (const line of patch.split('\n')) {
+    if (line.startsWith('@@')) {
+      hunk = startHunk(line);
+      if (hunk) hunks.push(hunk);
+    } else if (hunk && isHunkBodyLine(hunk, line)) {
+      appendHunkLine(hunk, line);
+    }
+  }
+
+  return hunks;
+}
+
+/** Returns every added line of a file, in order */
+export function getAddedLines(file: DiffFile): DiffLine[] {
+  return file.hunks.flatMap(hunk => hunk.lines.filter(line => line.type === 'added'));
+}
+
+/**
+ * Whether a new-side line number appears in one of the hunks, i.e. whether
+ * GitHub will accept an inline review comment on it.
+ */
+export function isCommentableLine(hunks: DiffHunk[], lineNumber: number): boolean {
+  return hunks.some(hunk =>
+    hunk.lines.some(line => line.type !== 'removed' && line.newLineNumber === lineNumber),
+  );
+}
+
+export function findDiffFile(diff: ParsedDiff, path: string): DiffFile | undefined {
+  return diff.files.find(file => file.path === path || file.oldPath === path);
+}
+
+function startFile(header: string): DiffFile {
+  // "diff --git a/old b/new" - only reliable when paths contain no spaces,
+  // the ---/+++ and rename headers below take precedence when present
+  const match = header.match(/^diff --git "?a\/(.+?)"? "?b\/(.+?)"?$/);
+  const oldPath = match ? match[1] : null;
+  const newPath = match ? match[2] : null;
+
+  return {
+    oldPath,
+    newPath,
+    path: newPath ?? oldPath ?? 'unknown',
+    status: oldPath && newPath && oldPath !== newPath ? 'renamed' : 'modified',
+    isBinary: false,
+    hunks: [],
+  };
+}
+
+function applyFileHeader(file: DiffFile, line: string): void {
+  if (line.startsWith('new file mode')) {
+    file.status = 'added';
+    file.oldPath = null;
+  } else if (line.startsWith('deleted file mode')) {
+    file.status = 'deleted';
+    file.newPath = null;
+  } else if (line.startsWith('rename from ')) {
+    file.oldPath = unquote(line.substring('rename from '.length));
+    file.status = 'renamed';
+  } else if (line.startsWith('rename to ')) {
+    file.newPath = unquote(line.substring('rename to '.length));
+    file.status = 'renamed';
+  } else if (line.startsWith('Binary files ') || line.startsWith('GIT binary patch')) {
+    file.isBinary = true;
+  } else if (line.startsWith('--- ')) {
+    file.oldPath = parseHeaderPath(line.substring(4), 'a/');
+  } else if (line.startsWith('+++ ')) {
+    file.newPath = parseHeaderPath(line.substring(4), 'b/');
+  }
+
+  file.path = file.newPath ?? file.oldPath ?? file.path;
+}
+
+function parseHeaderPath(value: string, prefix: string): string | null {
+  const path = unquote(value.split('\t')[0]);
+  if (path === '/dev/null') return null;
+  return path.startsWith(prefix) ? path.substring(prefix.length) : path;
+}
+
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  return trimmed.startsWith('"') && trimmed.endsWith('"') ? trimmed.slice(1, -1) : trimmed;
+}
+
+function startHunk(header: string): DiffHunk | null {
+  const match = header.match(HUNK_HEADER);
+  if (!match) return null;
+
+  return {
+    header,
+    oldStart: parseInt(match[1], 10),
+    oldLines: match[2] !== undefined ? parseInt(match[2], 10) : 1,
+    newStart: parseInt(match[3], 10),
+    newLines: match[4] !== undefined ? parseInt(match[4], 10) : 1,
+    lines: [],
+  };
+}
+
+/**
+ * Whether a line belongs to the hunk. The body ends once it holds the line
+ * counts from the header, so a following `--- ` file header or trailing
+ * text is never read as a removed or context line.
+ */
+function isHunkBodyLine(hunk: DiffHunk, line: string): boolean {
+  if (line.startsWith('\\')) return true;
+
+  const oldLeft = hunk.oldStart + hunk.oldLines - nextLineNumber(hunk, 'oldLineNumber', hunk.oldStart);
+  const newLeft = hunk.newStart + hunk.newLines - nextLineNumber(hunk, 'newLineNumber', hunk.newStart);
+
+  if (line.startsWith('+')) return newLeft > 0;
+  if (line.startsWith('-')) return oldLeft > 0;
+  // Some tools strip the space from empty context lines
+  if (line.startsWith(' ') || line === '') return oldLeft > 0 && newLeft > 0;
+  return false;
+}
+
+function appendHunkLine(hunk: DiffHunk, line: string): void {
+  // "\ No newline at end of file" annotates the previous line
+  if (line.startsWith('\\')) return;
+
+  const nextOld = nextLineNumber(hunk, 'oldLineNumber', hunk.oldStart);
+  const nextNew = nextLineNumber(hunk, 'newLineNumber', hunk.newStart);
+  const content = line.substring(1);
+
+  if (line.startsWith('+')) {
+    hunk.lines.push({ type: 'added', content, newLineNumber: nextNew });
+  } else if (line.startsWith('-')) {
+    hunk.lines.push({ type: 'removed', content, oldLineNumber: nextOld });
+  } else {
+    hunk.lines.push({ type: 'context', content, oldLineNumber: nextOld, newLineNumber: nextNew });
+  }
+}
+
+function nextLineNumber(
+  hunk: DiffHunk,
+  side: 'oldLineNumber' | 'newLineNumber',
+  start: number,
+): number {
+  for (let i = hunk.lines.length - 1; i >= 0; i--) {
+    const value = hunk.lines[i][side];
+    if (value !== undefined) return value + 1;
+  }
+  return start;
+}
@@ -1,2 +1,4 @@
 export { Review } from './review.entity';
-export { ReviewComment } from './review-comment.entity';
\ No newline at end of file
+export { ReviewComment } from './review-comment.entity';
+export { WebhookDelivery } from './webhook-delivery.entity';
+export { RuleSuppression } from './rule-suppression.entity';
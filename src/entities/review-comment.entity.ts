@@ -45,8 +45,44 @@ export class ReviewComment {
   suggestion!: string;
 
   @Column({ nullable: true })
+  ruleId?: string;
+
+  @Column({ nullable: true })
+  fingerprint?: string;
+
+  @Column({ nullable: true })
+  contextHash?: string;
+
+  /**
+   * GitHub comment ids outgrew int4; bigint is read back as a string, so it
+   * is converted to a number, which holds them exactly
+   */
+  @Column({
+    type: 'bigint',
+    nullable: true,
+    transformer: {
+      to: (value?: number | null) => value,
+      from: (value: string | null) => (value === null ? null : Number(value)),
+    },
+  })
   githubCommentId?: number;
 
+  /** Posted as an inline comment; only posted findings count as reported on later pushes */
+  @Column({ default: false })
+  posted!: boolean;
+
+  /** State of the posted comment's review thread, synced from GitHub */
+  @Column({
+    type: 'enum',
+    enum: ['open', 'resolved', 'outdated', 'dismissed'],
+    default: 'open',
+  })
+  status!: string;
+
+  /** Set when the bot conceded the finding in a follow-up discussion */
+  @Column({ default: false })
+  disputed!: boolean;
+
   @CreateDateColumn()
   createdAt!: Date;
 }
\ No newline at end of file
@@ -13,24 +13,46 @@ export class Review {
   @PrimaryGeneratedColumn('uuid')
   id!: string;
 
+  /** Where the repository is hosted */
+  @Column({
+    type: 'enum',
+    enum: ['github', 'gitlab'],
+    default: 'github',
+  })
+  provider!: string;
+
+  /** GitHub owner, or GitLab namespace including subgroups */
   @Column()
   owner!: string;
 
   @Column()
   repo!: string;
 
+  /** Pull request number, or merge request iid on GitLab */
   @Column()
   pullNumber!: number;
 
   @Column()
   commitSha!: string;
 
+  /** GitHub App installation the review ran under, if any */
+  @Column({ nullable: true })
+  installationId?: number;
+
+  /** Findings were stored but not posted; later reviews ignore this one */
+  @Column({ default: false })
+  dryRun!: boolean;
+
+  /** Only files matching these paths or globs were reviewed; later reviews ignore this one */
+  @Column('text', { array: true, nullable: true })
+  paths?: string[] | null;
+
   @Column('text')
   summary!: string;
 
   @Column({
     type: 'enum',
-    enum: ['pending', 'in_progress', 'completed', 'failed'],
+    enum: ['pending', 'in_progress', 'completed', 'failed', 'cancelled'],
     default: 'pending',
   })
   status!: string;
@@ -0,0 +1,32 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+
+/** A rule a repository's maintainers turned off with `/ignore` */
+@Entity('rule_suppressions')
+@Index(['provider', 'owner', 'repo', 'ruleId'], { unique: true })
+export class RuleSuppression {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  /** Where the repository is hosted; the same path can name different repositories */
+  @Column({
+    type: 'enum',
+    enum: ['github', 'gitlab'],
+    default: 'github',
+  })
+  provider!: string;
+
+  @Column()
+  owner!: string;
+
+  @Column()
+  repo!: string;
+
+  @Column()
+  ruleId!: string;
+
+  @Column()
+  createdBy!: string;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+}
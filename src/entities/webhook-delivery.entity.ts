@@ -0,0 +1,14 @@
+import { Entity, PrimaryColumn, Column, CreateDateColumn } from 'typeorm';
+
+/** A processed GitHub webhook delivery, keyed by its `X-GitHub-Delivery` id */
+@Entity('webhook_deliveries')
+export class WebhookDelivery {
+  @PrimaryColumn()
+  id!: string;
+
+  @Column({ nullable: true })
+  event?: string;
+
+  @CreateDateColumn()
+  receivedAt!: Date;
+}
@@ -3,7 +3,8 @@ import { ValidationPipe } from '@nestjs/common';
 import { AppModule } from './app.module';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  // Keep the raw request body for webhook signature verification
+  const app = await NestFactory.create(AppModule, { rawBody: true });
 
   // Enable validation globally with proper error handling
   app.useGlobalPipes(new ValidationPipe({
@@ -0,0 +1,47 @@
+import { PermissionLevel } from '../github/github.service';
+
+/** Queue job name for commands posted in pull request comments */
+export const CHATOPS_JOB = 'chatops-command';
+/** Queue job name for replies on review threads */
+export const THREAD_REPLY_JOB = 'thread-reply';
+
+export type ChatOpsCommand =
+  /** Re-run the review, optionally limited to some paths or globs */
+  | { name: 'review'; paths: string[] }
+  /** Explain the finding a review thread is about */
+  | { name: 'explain' }
+  /** Stop reporting a rule in this repository */
+  | { name: 'ignore'; ruleId?: string }
+  /** Resolve the review thread */
+  | { name: 'resolve' };
+
+/** Minimum repository role needed to run each command */
+export const COMMAND_PERMISSIONS: Record<ChatOpsCommand['name'], PermissionLevel> = {
+  review: 'write',
+  explain: 'read',
+  ignore: 'write',
+  resolve: 'write',
+};
+
+export interface ChatOpsJobData {
+  owner: string;
+  repo: string;
+  installationId?: number;
+  pullNumber: number;
+  /** Login of the commenter */
+  author: string;
+  command: ChatOpsCommand;
+  /** First comment of the review thread the command was posted on, if any */
+  threadCommentId?: number;
+}
+
+export interface ThreadReplyJobData {
+  owner: string;
+  repo: string;
+  installationId?: number;
+  pullNumber: number;
+  /** Login of the replying user */
+  author: string;
+  /** First comment of the thread that was replied to */
+  threadCommentId: number;
+}
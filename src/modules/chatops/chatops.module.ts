@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { ChatOpsService } from './chatops.service';
+import { ChatOpsProcessor } from './chatops.processor';
+import { ConversationService } from './conversation.service';
+import { QueueModule } from '../queue/queue.module';
+import { GithubModule } from '../github/github.module';
+import { DatabaseModule } from '../database/database.module';
+import { CodeAnalysisModule } from '../code-analysis/code-analysis.module';
+
+@Module({
+  imports: [QueueModule, GithubModule, DatabaseModule, CodeAnalysisModule],
+  providers: [ChatOpsService, ConversationService, ChatOpsProcessor],
+})
+export class ChatOpsModule {}
@@ -0,0 +1,37 @@
+import { Processor, Process } from '@nestjs/bull';
+import { Injectable, Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import { ChatOpsService } from './chatops.service';
+import { ConversationService } from './conversation.service';
+import { CHATOPS_JOB, ChatOpsJobData, THREAD_REPLY_JOB, ThreadReplyJobData } from './chatops.interface';
+
+@Injectable()
+@Processor('code-review')
+export class ChatOpsProcessor {
+  private readonly logger = new Logger(ChatOpsProcessor.name);
+
+  constructor(
+    private readonly chatOpsService: ChatOpsService,
+    private readonly conversationService: ConversationService,
+  ) {}
+
+  @Process(CHATOPS_JOB)
+  async handleCommand(job: Job<ChatOpsJobData>) {
+    try {
+      await this.chatOpsService.handleCommand(job.data);
+    } catch (error) {
+      this.logger.error(`Failed to run /${job.data.command.name}: ${error instanceof Error ? error.message : 'Unknown error'}`, error instanceof Error ? error.stack : undefined);
+      throw error;
+    }
+  }
+
+  @Process(THREAD_REPLY_JOB)
+  async handleThreadReply(job: Job<ThreadReplyJobData>) {
+    try {
+      await this.conversationService.handleReply(job.data);
+    } catch (error) {
+      this.logger.error(`Failed to answer reply on thread ${job.data.threadCommentId}: ${error instanceof Error ? error.message : 'Unknown error'}`, error instanceof Error ? error.stack : undefined);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,129 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { GithubService, PERMISSION_LEVELS, RepoRef } from '../github/github.service';
+import { DatabaseService } from '../database/database.service';
+import { QueueService } from '../queue/queue.service';
+import { CodeAnalysisService } from '../code-analysis/code-analysis.service';
+import { ChatOpsJobData, COMMAND_PERMISSIONS } from './chatops.interface';
+
+const RULE_ID = /^[\w./-]+$/;
+// Rendered by GithubService under rule findings
+const RULE_FOOTER = /Rule: `([^`]+)`/;
+
+/**
+ * Runs commands posted in pull request comments and replies where the
+ * command was posted: on the review thread or on the pull request.
+ */
+@Injectable()
+export class ChatOpsService {
+  private readonly logger = new Logger(ChatOpsService.name);
+
+  constructor(
+    private readonly queueService: QueueService,
+    private readonly githubService: GithubService,
+    private readonly databaseService: DatabaseService,
+    private readonly codeAnalysisService: CodeAnalysisService,
+  ) {}
+
+  async handleCommand(data: ChatOpsJobData): Promise<void> {
+    const repository: RepoRef = { owner: data.owner, repo: data.repo, installationId: data.installationId };
+    const { command } = data;
+
+    this.logger.log(`/${command.name} from ${data.author} on ${data.owner}/${data.repo}#${data.pullNumber}`);
+
+    const required = COMMAND_PERMISSIONS[command.name];
+    const permission = await this.githubService.getPermissionLevel(repository, data.author);
+    if (PERMISSION_LEVELS.indexOf(permission) < PERMISSION_LEVELS.indexOf(required)) {
+      await this.reply(repository, data, `\`/${command.name}\` requires ${required} access to this repository.`);
+      return;
+    }
+
+    switch (command.name) {
+      case 'review':
+        return await this.review(repository, data, command.paths);
+      case 'explain':
+        return await this.explain(repository, data);
+      case 'ignore':
+        return await this.ignore(repository, data, command.ruleId);
+      case 'resolve':
+        return await this.resolve(repository, data);
+    }
+  }
+
+  private async review(repository: RepoRef, data: ChatOpsJobData, paths: string[]): Promise<void> {
+    const pullRequest = await this.githubService.getPullRequest(repository, data.pullNumber);
+    if (pullRequest.state !== 'open') {
+      await this.reply(repository, data, 'This pull request is closed, so there is nothing to review.');
+      return;
+    }
+
+    await this.queueService.addCodeReviewJob({
+      owner: data.owner,
+      repo: data.repo,
+      pullNumber: data.pullNumber,
+      headSha: pullRequest.headSha,
+      baseSha: pullRequest.baseSha,
+      installationId: data.installationId,
+      paths,
+    });
+
+    const scope = paths.length > 0 ? ` of ${paths.map(path => `\`${path}\``).join(', ')}` : '';
+    await this.reply(repository, data, `Queued a review${scope} at ${pullRequest.headSha.substring(0, 7)}.`);
+  }
+
+  private async explain(repository: RepoRef, data: ChatOpsJobData): Promise<void> {
+    if (!data.threadCommentId) {
+      await this.reply(repository, data, 'Reply with `/explain` on one of my review comments to get more detail on it.');
+      return;
+    }
+
+    const finding = await this.githubService.getReviewComment(repository, data.threadCommentId);
+    const explanation = await this.codeAnalysisService.explainFinding({
+      comment: finding.body,
+      filePath: finding.path,
+      line: finding.line,
+      diffHunk: finding.diffHunk,
+    });
+
+    await this.reply(repository, data, explanation);
+  }
+
+  private async ignore(repository: RepoRef, data: ChatOpsJobData, ruleId?: string): Promise<void> {
+    // On a review thread the rule defaults to the one the finding came from
+    if (!ruleId && data.threadCommentId) {
+      const finding = await this.githubService.getReviewComment(repository, data.threadCommentId);
+      ruleId = finding.body.match(RULE_FOOTER)?.[1];
+    }
+
+    if (!ruleId || !RULE_ID.test(ruleId)) {
+      await this.reply(
+        repository,
+        data,
+        'Usage: `/ignore <rule-id>`, or `/ignore` on a review thread of a rule finding. AI findings have no rule; tune them with `instructions` in `.lintelligence.yml`.',
+      );
+      return;
+    }
+
+    // ChatOps commands only arrive from GitHub
+    await this.databaseService.addRuleSuppression(data.owner, data.repo, ruleId, data.author, 'github');
+    await this.reply(repository, data, `\`${ruleId}\` will no longer be reported in this repository.`);
+  }
+
+  private async resolve(repository: RepoRef, data: ChatOpsJobData): Promise<void> {
+    const resolved = data.threadCommentId !== undefined &&
+      await this.githubService.resolveReviewThread(repository, data.pullNumber, data.threadCommentId);
+
+    if (!resolved) {
+      await this.reply(repository, data, 'Reply with `/resolve` on a review thread to resolve it.');
+    }
+  }
+
+  private async reply(repository: RepoRef, data: ChatOpsJobData, message: string): Promise<void> {
+    const body = `@${data.author} ${message}`;
+
+    if (data.threadCommentId) {
+      await this.githubService.replyToReviewComment(repository, data.pullNumber, data.threadCommentId, body);
+    } else {
+      await this.githubService.postIssueComment(repository, data.pullNumber, body);
+    }
+  }
+}
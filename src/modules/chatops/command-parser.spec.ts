@@ -0,0 +1,29 @@
+import { parseCommand } from './command-parser';
+
+describe('parseCommand', () => {
+  it('parses /review with optional paths', () => {
+    expect(parseCommand('/review')).toEqual({ name: 'review', paths: [] });
+    expect(parseCommand('/review src/app.ts  lib/**')).toEqual({ name: 'review', paths: ['src/app.ts', 'lib/**'] });
+  });
+
+  it('parses /ignore with the rule id', () => {
+    expect(parseCommand('/ignore best-practice/console-log')).toEqual({ name: 'ignore', ruleId: 'best-practice/console-log' });
+    expect(parseCommand('/ignore')).toEqual({ name: 'ignore', ruleId: undefined });
+  });
+
+  it('parses commands without arguments case-insensitively', () => {
+    expect(parseCommand('/Explain')).toEqual({ name: 'explain' });
+    expect(parseCommand('/RESOLVE')).toEqual({ name: 'resolve' });
+  });
+
+  it('only reads the first line', () => {
+    expect(parseCommand('  /review src/a.ts\nplease look at this too: src/b.ts')).toEqual({ name: 'review', paths: ['src/a.ts'] });
+    expect(parseCommand('Looks good!\n/resolve')).toBeNull();
+  });
+
+  it('ignores comments that are not commands of this bot', () => {
+    expect(parseCommand('LGTM')).toBeNull();
+    expect(parseCommand('/deploy production')).toBeNull();
+    expect(parseCommand('')).toBeNull();
+  });
+});
@@ -0,0 +1,26 @@
+import { ChatOpsCommand } from './chatops.interface';
+
+/**
+ * Parses a command from the first line of a comment, e.g.
+ * `/review src/app.ts` or `/ignore best-practice/console-log`. Returns null
+ * for comments that are not commands of this bot.
+ */
+export function parseCommand(body: string): ChatOpsCommand | null {
+  const firstLine = body.trim().split('\n')[0].trim();
+  if (!firstLine.startsWith('/')) return null;
+
+  const [name, ...args] = firstLine.substring(1).split(/\s+/);
+
+  switch (name.toLowerCase()) {
+    case 'review':
+      return { name: 'review', paths: args };
+    case 'explain':
+      return { name: 'explain' };
+    case 'ignore':
+      return { name: 'ignore', ruleId: args[0] };
+    case 'resolve':
+      return { name: 'resolve' };
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,79 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { GithubService, PERMISSION_LEVELS, RepoRef } from '../github/github.service';
+import { isBotComment, parseFindingMarker, stripMarkers } from '../github/comment-markers';
+import { DatabaseService } from '../database/database.service';
+import { CodeAnalysisService, CodeIssue } from '../code-analysis/code-analysis.service';
+import { ThreadReplyJobData } from './chatops.interface';
+
+/**
+ * Answers replies on the bot's own review threads, conceding and marking
+ * the finding as disputed when the developers show it does not apply.
+ */
+@Injectable()
+export class ConversationService {
+  private readonly logger = new Logger(ConversationService.name);
+
+  constructor(
+    private readonly githubService: GithubService,
+    private readonly databaseService: DatabaseService,
+    private readonly codeAnalysisService: CodeAnalysisService,
+  ) {}
+
+  async handleReply(data: ThreadReplyJobData): Promise<void> {
+    const repository: RepoRef = { owner: data.owner, repo: data.repo, installationId: data.installationId };
+
+    const root = await this.githubService.getReviewComment(repository, data.threadCommentId);
+    const findingId = parseFindingMarker(root.body);
+    if (!findingId) {
+      return; // Not one of our threads
+    }
+
+    const finding = await this.databaseService.getReviewComment(findingId);
+    if (!finding) {
+      this.logger.warn(`Finding ${findingId} of review comment ${root.id} not found`);
+      return;
+    }
+
+    // Anyone can write a finding marker; only the comment we posted for the
+    // finding starts one of our threads
+    if (finding.githubCommentId !== root.id) {
+      this.logger.warn(`Review comment ${root.id} claims finding ${findingId} but was not posted for it`);
+      return;
+    }
+
+    // Replies cost an AI call and can dispute findings, so outsiders on
+    // public repositories are ignored
+    const permission = await this.githubService.getPermissionLevel(repository, data.author);
+    if (PERMISSION_LEVELS.indexOf(permission) < PERMISSION_LEVELS.indexOf('read')) {
+      this.logger.log(`Ignoring reply by ${data.author} without access to ${data.owner}/${data.repo}`);
+      return;
+    }
+
+    const thread = await this.githubService.listThreadComments(repository, data.pullNumber, root.id);
+    const response = await this.codeAnalysisService.discussFinding({
+      finding: {
+        type: finding.issueType as CodeIssue['type'],
+        severity: finding.severity as CodeIssue['severity'],
+        message: finding.message,
+        suggestion: finding.suggestion,
+        filePath: finding.filePath,
+        line: finding.lineNumber,
+      },
+      diffHunk: root.diffHunk,
+      thread: thread.map(comment => ({
+        author: comment.author,
+        body: stripMarkers(comment.body),
+        bot: isBotComment(comment.body),
+      })),
+    });
+
+    let reply = response.reply;
+    if (response.concede && !finding.disputed) {
+      await this.databaseService.markFindingDisputed(finding.id);
+      reply += '\n\n_Marked this finding as disputed._';
+      this.logger.log(`Finding ${finding.id} disputed by ${data.author}`);
+    }
+
+    await this.githubService.replyToReviewComment(repository, data.pullNumber, root.id, reply);
+  }
+}
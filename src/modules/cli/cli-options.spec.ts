@@ -0,0 +1,43 @@
+import { parseCliArgs, UsageError } from './cli-options';
+
+describe('parseCliArgs', () => {
+  it('reviews uncommitted changes as text by default', () => {
+    expect(parseCliArgs([])).toEqual({
+      source: { kind: 'working-tree' },
+      cwd: process.cwd(),
+      failOn: undefined,
+      format: 'text',
+      verbose: false,
+    });
+  });
+
+  it('reads the changes to review', () => {
+    expect(parseCliArgs(['main..HEAD'])?.source).toEqual({ kind: 'range', range: 'main..HEAD' });
+    expect(parseCliArgs(['--staged'])?.source).toEqual({ kind: 'staged' });
+    expect(parseCliArgs(['--patch', '-'])?.source).toEqual({ kind: 'patch', path: '-' });
+  });
+
+  it('reads the output options', () => {
+    expect(parseCliArgs(['--format', 'sarif', '--fail-on', 'none', '--cwd', '/repo', '--verbose'])).toMatchObject({
+      format: 'sarif',
+      failOn: 'none',
+      cwd: '/repo',
+      verbose: true,
+    });
+  });
+
+  it('returns undefined when help is requested', () => {
+    expect(parseCliArgs(['-h'])).toBeUndefined();
+  });
+
+  it.each([
+    [['--format', 'xml'], '--format must be one of: text, json, sarif'],
+    [['--fail-on', 'severe'], '--fail-on must be one of: low, medium, high, critical, none'],
+    [['--staged', 'main..HEAD'], 'Give only one of a commit range, --staged or --patch'],
+    [['main'], 'Expected a single commit range such as main..HEAD'],
+    [['--unknown'], expect.any(String)],
+  ])('rejects %p', (argv, message) => {
+    expect(() => parseCliArgs(argv as string[])).toThrow(UsageError);
+    expect(() => parseCliArgs(argv as string[])).toThrow(expect.objectContaining({ message }));
+  });
+});
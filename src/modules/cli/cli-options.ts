@@ -0,0 +1,98 @@
+import { parseArgs } from 'util';
+import { SEVERITIES } from '../code-analysis/analysis-schema';
+import { LocalReviewOptions } from './local-review.service';
+
+export const OUTPUT_FORMATS = ['text', 'json', 'sarif'] as const;
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+export interface CliOptions extends LocalReviewOptions {
+  format: OutputFormat;
+  verbose: boolean;
+}
+
+/** Invalid command-line arguments */
+export class UsageError extends Error {}
+
+export const USAGE = `Usage: lintelligence-review [options] [<base>..<head>]
+
+Reviews local changes and prints the findings.
+
+Changes to review (default: uncommitted changes against HEAD):
+  <base>..<head>         Commit range, e.g. main..HEAD or origin/main...feature
+  --staged               Staged changes, e.g. in a pre-commit hook
+  --patch <file>         A unified diff file; "-" reads standard input
+
+Options:
+  --format <format>      text (default), json or sarif
+  --fail-on <severity>   Exit with 1 when a finding reaches this severity:
+                         low, medium, high or critical (default: failOnSeverity
+                         from .lintelligence.yml, else high), or none
+  --cwd <dir>            Repository directory (default: current directory)
+  --verbose              Log progress to standard error
+  -h, --help             Show this help
+
+Exit codes: 0 no blocking findings, 1 blocking findings, 2 usage or runtime error.
+`;
+
+/** Parses the CLI arguments; returns undefined when help was requested */
+export function parseCliArgs(argv: string[]): CliOptions | undefined {
+  let parsed: ReturnType<typeof parseCommandLine>;
+  try {
+    parsed = parseCommandLine(argv);
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : 'Invalid arguments');
+  }
+
+  const { values, positionals } = parsed;
+  if (values.help) {
+    return undefined;
+  }
+
+  const format = values.format ?? 'text';
+  if (!(OUTPUT_FORMATS as readonly string[]).includes(format)) {
+    throw new UsageError(`--format must be one of: ${OUTPUT_FORMATS.join(', ')}`);
+  }
+
+  const failOn = values['fail-on'];
+  if (failOn !== undefined && failOn !== 'none' && !(SEVERITIES as string[]).includes(failOn)) {
+    throw new UsageError(`--fail-on must be one of: ${SEVERITIES.join(', ')}, none`);
+  }
+
+  const sources = [values.staged, values.patch !== undefined, positionals.length > 0].filter(Boolean).length;
+  if (sources > 1) {
+    throw new UsageError('Give only one of a commit range, --staged or --patch');
+  }
+  if (positionals.length > 1 || (positionals.length === 1 && !positionals[0].includes('..'))) {
+    throw new UsageError('Expected a single commit range such as main..HEAD');
+  }
+
+  return {
+    source: values.patch !== undefined
+      ? { kind: 'patch', path: values.patch }
+      : values.staged
+        ? { kind: 'staged' }
+        : positionals.length === 1
+          ? { kind: 'range', range: positionals[0] }
+          : { kind: 'working-tree' },
+    cwd: values.cwd ?? process.cwd(),
+    failOn: failOn as CliOptions['failOn'],
+    format: format as OutputFormat,
+    verbose: values.verbose ?? false,
+  };
+}
+
+function parseCommandLine(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      staged: { type: 'boolean' },
+      patch: { type: 'string' },
+      format: { type: 'string' },
+      'fail-on': { type: 'string' },
+      cwd: { type: 'string' },
+      verbose: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+}
@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import configuration from '../../common/config/configuration';
+import { CodeAnalysisModule } from '../code-analysis/code-analysis.module';
+import { ReviewConfigModule } from '../review-config/review-config.module';
+import { LocalReviewService } from './local-review.service';
+
+/** Root module of the local review CLI; needs neither the database nor Redis */
+@Module({
+  imports: [
+    ConfigModule.forRoot({
+      isGlobal: true,
+      envFilePath: '.env',
+      load: [configuration],
+    }),
+    CodeAnalysisModule,
+    ReviewConfigModule,
+  ],
+  providers: [LocalReviewService],
+})
+export class CliModule {}
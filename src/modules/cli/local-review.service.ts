@@ -0,0 +1,127 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { promisify } from 'util';
+import { CodeAnalysisResult, CodeAnalysisService, CodeIssue } from '../code-analysis/code-analysis.service';
+import { ReviewConfigService } from '../review-config/review-config.service';
+import { parseUnifiedDiff } from '../../common/utils/diff-parser';
+
+const execFileAsync = promisify(execFile);
+
+// Large enough for the diff of a sizeable branch
+const GIT_MAX_BUFFER = 64 * 1024 * 1024;
+
+/** Where the changes to review come from */
+export type LocalDiffSource =
+  | { kind: 'working-tree' }
+  | { kind: 'staged' }
+  | { kind: 'range'; range: string }
+  /** `-` reads the patch from standard input */
+  | { kind: 'patch'; path: string };
+
+export interface LocalReviewOptions {
+  source: LocalDiffSource;
+  /** Directory of the git repository */
+  cwd: string;
+  /** Overrides `failOnSeverity` from the config file */
+  failOn?: CodeIssue['severity'] | 'none';
+}
+
+export interface LocalReviewResult {
+  /** The analysis, limited to findings at or above the configured minimum severity */
+  analysis: CodeAnalysisResult;
+  filesReviewed: number;
+  /** Some finding reached the failure threshold */
+  failed: boolean;
+}
+
+/**
+ * Reviews changes in a local git repository with the same analysis, config
+ * file and filters as pull request reviews, without posting anything.
+ */
+@Injectable()
+export class LocalReviewService {
+  private readonly logger = new Logger(LocalReviewService.name);
+
+  constructor(
+    private readonly codeAnalysisService: CodeAnalysisService,
+    private readonly reviewConfigService: ReviewConfigService,
+  ) {}
+
+  async review(options: LocalReviewOptions): Promise<LocalReviewResult> {
+    const readFile = this.fileReader(options);
+    const { config, errors } = await this.reviewConfigService.loadConfig(readFile);
+    if (errors.length > 0) {
+      this.logger.warn(`Invalid review config: ${errors.join('; ')}`);
+    }
+
+    const diff = this.reviewConfigService.filterDiff(parseUnifiedDiff(await this.readDiff(options)), config);
+
+    const analysis = await this.codeAnalysisService.analyzeCode(diff, {
+      instructions: config.instructions,
+      customRules: config.customRules,
+      disabledRules: Object.keys(config.heuristics).filter(id => !config.heuristics[id]),
+      loadFile: readFile,
+    });
+    const issues = this.reviewConfigService
+      .filterIssues(analysis.issues, config)
+      .filter(issue => this.reviewConfigService.shouldPost(issue, config));
+
+    const failOn = options.failOn ?? config.failOnSeverity;
+    const failed = failOn !== 'none' &&
+      this.reviewConfigService.checkConclusion(issues, { ...config, failOnSeverity: failOn }) === 'failure';
+
+    return {
+      analysis: { ...analysis, issues },
+      filesReviewed: diff.files.length,
+      failed,
+    };
+  }
+
+  private async readDiff({ source, cwd }: LocalReviewOptions): Promise<string> {
+    switch (source.kind) {
+      case 'patch':
+        return source.path === '-' ? await readStdin() : await fs.readFile(path.resolve(cwd, source.path), 'utf8');
+      case 'staged':
+        return await this.git(cwd, ['diff', '--cached', '--no-color', '--no-ext-diff']);
+      case 'range':
+        return await this.git(cwd, ['diff', '--no-color', '--no-ext-diff', source.range]);
+      default:
+        return await this.git(cwd, ['diff', 'HEAD', '--no-color', '--no-ext-diff']);
+    }
+  }
+
+  /**
+   * Reads files as of the reviewed changes: the range's head commit, the
+   * index for staged changes, the working tree otherwise
+   */
+  private fileReader({ source, cwd }: LocalReviewOptions): (file: string) => Promise<string | null> {
+    const revision = source.kind === 'range'
+      ? source.range.split(/\.{2,3}/)[1] || 'HEAD'
+      : source.kind === 'staged' ? '' : undefined;
+
+    return async file => {
+      try {
+        return revision === undefined
+          ? await fs.readFile(path.resolve(cwd, file), 'utf8')
+          : await this.git(cwd, ['show', `${revision}:${file}`]);
+      } catch (error) {
+        return null;
+      }
+    };
+  }
+
+  private async git(cwd: string, args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: GIT_MAX_BUFFER, encoding: 'utf8' });
+    return stdout;
+  }
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
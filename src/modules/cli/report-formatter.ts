@@ -0,0 +1,55 @@
+import { SEVERITIES } from '../code-analysis/analysis-schema';
+import { CodeIssue } from '../code-analysis/code-analysis.service';
+import { toSarif } from '../sarif/sarif-builder';
+import { OutputFormat } from './cli-options';
+import { LocalReviewResult } from './local-review.service';
+
+/** Renders a local review for standard output */
+export function formatReport(result: LocalReviewResult, format: OutputFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify({
+        summary: result.analysis.summary,
+        filesReviewed: result.filesReviewed,
+        failed: result.failed,
+        issues: result.analysis.issues,
+        positives: result.analysis.positives,
+      }, null, 2);
+    case 'sarif':
+      return JSON.stringify(toSarif(result.analysis.issues), null, 2);
+    default:
+      return formatText(result);
+  }
+}
+
+function formatText({ analysis, filesReviewed }: LocalReviewResult): string {
+  if (filesReviewed === 0) {
+    return 'No changes to review.';
+  }
+
+  // Most severe first, then in file order
+  const issues = [...analysis.issues].sort((a, b) =>
+    SEVERITIES.indexOf(b.severity) - SEVERITIES.indexOf(a.severity) ||
+    (a.filePath ?? '').localeCompare(b.filePath ?? '') ||
+    (a.line ?? 0) - (b.line ?? 0),
+  );
+
+  const lines = issues.flatMap(issue => [
+    `${location(issue)}  ${issue.severity} ${issue.type}${issue.ruleId ? ` (${issue.ruleId})` : ''}`,
+    `  ${issue.message}`,
+    ...(issue.suggestion ? [`  Suggestion: ${issue.suggestion}`] : []),
+    '',
+  ]);
+
+  const files = `${filesReviewed} file${filesReviewed === 1 ? '' : 's'}`;
+  const found = issues.length === 0
+    ? `No issues found in ${files}.`
+    : `${issues.length} issue${issues.length === 1 ? '' : 's'} found in ${files}.`;
+
+  return [...lines, analysis.summary, found].filter(Boolean).join('\n');
+}
+
+function location(issue: CodeIssue): string {
+  if (!issue.filePath) return '(general)';
+  return issue.line ? `${issue.filePath}:${issue.line}` : issue.filePath;
+}
@@ -0,0 +1,286 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ParsedDiff } from '../../common/interfaces/diff.interface';
+import { AppConfig } from '../../common/interfaces/config.interface';
+import { AI_PROVIDER, AIProvider } from './providers/ai-provider.interface';
+import { AnalysisValidation, validateAnalysis } from './analysis-schema';
+import { AnalysisMetricsService } from './analysis-metrics.service';
+import type {
+  CodeAnalysisResult,
+  DiscussionResponse,
+  FindingContext,
+  FindingDiscussion,
+} from './code-analysis.service';
+
+const SYSTEM_PROMPT = 'You are an expert code reviewer. Analyze the provided code diff and provide constructive feedback focusing on potential bugs, security issues, performance problems, and code quality improvements.';
+
+@Injectable()
+export class AIReviewService {
+  private readonly logger = new Logger(AIReviewService.name);
+
+  constructor(
+    @Inject(AI_PROVIDER) private readonly provider: AIProvider,
+    private readonly metricsService: AnalysisMetricsService,
+    private readonly configService: ConfigService<AppConfig, true>,
+  ) {
+    this.logger.log(`Using AI provider: ${provider.name}`);
+  }
+
+  async analyzeCodeDiff(diff: ParsedDiff, instructions?: string): Promise<CodeAnalysisResult> {
+    const prompt = this.buildAnalysisPrompt(diff, instructions);
+    let content: string;
+
+    try {
+      content = await this.provider.complete({
+        systemPrompt: SYSTEM_PROMPT,
+        userPrompt: prompt,
+      });
+    } catch (error) {
+      this.logger.error(`AI analysis error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to analyze code with ${this.provider.name}`);
+    }
+
+    return this.parseResponse(content);
+  }
+
+  async summarizeAnalyses(summaries: string[]): Promise<string> {
+    try {
+      const content = await this.provider.complete({
+        systemPrompt: 'You are an expert code reviewer. Combine partial reviews of a single pull request into one overall assessment.',
+        userPrompt: `The pull request was reviewed in ${summaries.length} parts. Write a concise overall summary (one or two paragraphs, plain text, no JSON) from these partial summaries:\n\n${summaries.map((summary, i) => `Part ${i + 1}: ${summary}`).join('\n\n')}`,
+        maxTokens: 500,
+      });
+
+      return content.trim() || summaries.join(' ');
+    } catch (error) {
+      this.logger.error(`AI summary error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to summarize code analysis with ${this.provider.name}`);
+    }
+  }
+
+  async explainFinding(context: FindingContext): Promise<string> {
+    const location = context.filePath
+      ? `${context.filePath}${context.line ? ` line ${context.line}` : ''}`
+      : 'the pull request';
+    const hunk = context.diffHunk ? `\n\nThe code it refers to:\n\`\`\`diff\n${context.diffHunk}\n\`\`\`` : '';
+
+    try {
+      const content = await this.provider.complete({
+        systemPrompt: 'You are an expert code reviewer. A developer asked you to explain one of your review comments.',
+        userPrompt: `Explain this review comment on ${location} in more depth: why it matters, what could go wrong, and how to fix it. Answer in Markdown, in a few short paragraphs, without JSON.\n\nThe review comment:\n${context.comment}${hunk}`,
+        maxTokens: 800,
+      });
+
+      return content.trim();
+    } catch (error) {
+      this.logger.error(`AI explanation error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to explain finding with ${this.provider.name}`);
+    }
+  }
+
+  async discussFinding(discussion: FindingDiscussion): Promise<DiscussionResponse> {
+    const { finding } = discussion;
+    const location = finding.filePath ? `${finding.filePath}${finding.line ? ` line ${finding.line}` : ''}` : 'the pull request';
+    const hunk = discussion.diffHunk ? `\n\nThe code:\n\`\`\`diff\n${discussion.diffHunk}\n\`\`\`` : '';
+    const transcript = discussion.thread
+      .map(message => `${message.bot ? 'You' : `@${message.author}`}: ${message.body}`)
+      .join('\n\n');
+
+    let content: string;
+    try {
+      content = await this.provider.complete({
+        systemPrompt: 'You are an expert code reviewer discussing one of your review comments with the developers of a pull request. Be concise and factual. Defend the finding only if it is correct; if the developers show it is wrong or does not apply, concede.',
+        userPrompt: `Your finding on ${location}:
+${finding.type} (${finding.severity}): ${finding.message}
+Suggestion: ${finding.suggestion}${hunk}
+
+The thread so far:
+${transcript}
+
+Answer the latest message. Respond with a JSON object:
+{
+  "reply": "Your reply in Markdown",
+  "concede": true if the finding is wrong or does not apply, otherwise false
+}`,
+        maxTokens: 800,
+      });
+    } catch (error) {
+      this.logger.error(`AI discussion error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to discuss finding with ${this.provider.name}`);
+    }
+
+    const json = this.extractJson(content);
+    try {
+      const parsed = json ? JSON.parse(json) : null;
+      if (parsed && typeof parsed.reply === 'string' && parsed.reply.trim()) {
+        return { reply: parsed.reply.trim(), concede: parsed.concede === true };
+      }
+    } catch (error) {
+      // Fall through and use the response as plain text
+    }
+
+    // A malformed JSON answer is not fit to post
+    if (/^(\{|```json)/.test(content.trim())) {
+      throw new Error(`Unusable discussion response from ${this.provider.name}`);
+    }
+
+    // A plain-text answer never concedes: disputing a finding needs an explicit verdict
+    return { reply: content.trim(), concede: false };
+  }
+
+  private buildAnalysisPrompt(diff: ParsedDiff, instructions?: string): string {
+    const repoInstructions = instructions
+      ? `\nAdditional instructions from the repository maintainers:\n${instructions}\n`
+      : '';
+
+    return `
+Please analyze this code diff and provide feedback in the following JSON format:
+
+{
+  "summary": "Overall assessment of the changes",
+  "issues": [
+    {
+      "type": "bug|security|performance|style|best-practice",
+      "severity": "low|medium|high|critical",
+      "message": "Description of the issue",
+      "file": "path of the file, exactly as given in the FILE header",
+      "line": "new-side line number if applicable",
+      "suggestion": "Suggested improvement",
+      "replacement": {
+        "startLine": "first new-side line to replace",
+        "endLine": "last new-side line to replace",
+        "original": "the exact current code of those lines",
+        "code": "the code to replace them with"
+      }
+    }
+  ],
+  "positives": ["Things done well in this change"]
+}
+
+"replacement" is optional. Only include it for small, self-contained fixes to
+added lines, keeping the original indentation.
+
+Each file starts with a FILE header. Every line is prefixed with its line number
+in the new version of the file followed by "+" (added), "-" (removed, no new-side
+line number) or " " (unchanged context). Only report line numbers of added or
+context lines.
+
+Code diff:
+\`\`\`
+${this.renderDiff(diff)}
+\`\`\`
+
+Focus on:
+1. Potential bugs or logical errors
+2. Security vulnerabilities
+3. Performance issues
+4. Code style and best practices
+5. Missing error handling
+6. Type safety issues
+${repoInstructions}`;
+  }
+
+  private renderDiff(diff: ParsedDiff): string {
+    return diff.files
+      .filter(file => !file.isBinary && file.hunks.length > 0)
+      .map(file => {
+        const header = file.status === 'renamed'
+          ? `FILE: ${file.path} (renamed from ${file.oldPath})`
+          : `FILE: ${file.path} (${file.status})`;
+
+        const hunks = file.hunks.map(hunk => [
+          hunk.header,
+          ...hunk.lines.map(line => {
+            const marker = line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' ';
+            const lineNumber = line.newLineNumber !== undefined ? String(line.newLineNumber) : '';
+            return `${lineNumber.padStart(5)} ${marker}${line.content}`;
+          }),
+        ].join('\n'));
+
+        return [header, ...hunks].join('\n');
+      })
+      .join('\n\n');
+  }
+
+  /**
+   * Parses and validates a model response, re-prompting the model to fix
+   * its own output up to `repairAttempts` times when it is not usable JSON.
+   */
+  private async parseResponse(content: string): Promise<CodeAnalysisResult> {
+    const { repairAttempts } = this.configService.get('ai', { infer: true });
+    let attempt = this.tryParse(content);
+    let repaired = false;
+
+    for (let i = 0; attempt.error && i < repairAttempts; i++) {
+      this.metricsService.recordRepairAttempt();
+      this.logger.warn(`Invalid AI response (${attempt.error}), requesting repair ${i + 1}/${repairAttempts}`);
+
+      try {
+        attempt = this.tryParse(await this.requestRepair(content, attempt.error));
+        repaired = true;
+      } catch (error) {
+        this.logger.warn(`Repair request failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        break;
+      }
+    }
+
+    if (!attempt.validation) {
+      this.metricsService.recordResponse('unparseable');
+      this.logger.warn('Failed to parse AI response as JSON');
+
+      // A plain-prose answer is still a usable summary
+      return {
+        summary: content.includes('{') ? 'AI analysis returned an unreadable response' : content,
+        issues: [],
+        positives: [],
+      };
+    }
+
+    const { result, droppedIssues, coercedIssues, errors } = attempt.validation;
+    this.metricsService.recordIssues(droppedIssues, coercedIssues);
+    this.metricsService.recordResponse(
+      repaired ? 'repaired' : droppedIssues + coercedIssues > 0 ? 'coerced' : 'valid',
+    );
+
+    if (errors.length > 0) {
+      this.logger.warn(`Dropped ${droppedIssues} invalid issues: ${errors.join('; ')}`);
+    }
+
+    return result;
+  }
+
+  private tryParse(content: string): { validation?: AnalysisValidation; error?: string } {
+    const json = this.extractJson(content);
+    if (!json) {
+      return { error: 'no JSON object found' };
+    }
+
+    try {
+      return { validation: validateAnalysis(JSON.parse(json)) };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'invalid JSON' };
+    }
+  }
+
+  private extractJson(content: string): string | null {
+    // Prefer a fenced ```json block, then the outermost braces
+    const fenced = content.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/);
+    if (fenced) return fenced[1];
+
+    const start = content.indexOf('{');
+    const end = content.lastIndexOf('}');
+    return start !== -1 && end > start ? content.substring(start, end + 1) : null;
+  }
+
+  private async requestRepair(content: string, error: string): Promise<string> {
+    return this.provider.complete({
+      systemPrompt: SYSTEM_PROMPT,
+      userPrompt: `Your previous response could not be used (${error}). It must be a single JSON object with "summary" (string), "issues" (array of objects with "type", "severity", "message", "file", "line", "suggestion") and "positives" (array of strings).
+
+Respond with only the corrected JSON object and no other text.
+
+Previous response:
+${content}`,
+    });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,46 @@
+import { Injectable } from '@nestjs/common';
+
+export type ResponseOutcome =
+  | 'valid' // parsed and matched the schema as-is
+  | 'coerced' // parsed, but issues were coerced or dropped
+  | 'repaired' // only parsed after a repair re-prompt
+  | 'unparseable'; // no valid JSON even after repair attempts
+
+/**
+ * In-process counters for how model responses fare against the analysis
+ * schema, exposed through `/stats`.
+ */
+@Injectable()
+export class AnalysisMetricsService {
+  private readonly responses: Record<ResponseOutcome, number> = {
+    valid: 0,
+    coerced: 0,
+    repaired: 0,
+    unparseable: 0,
+  };
+  private repairAttempts = 0;
+  private droppedIssues = 0;
+  private coercedIssues = 0;
+
+  recordResponse(outcome: ResponseOutcome): void {
+    this.responses[outcome]++;
+  }
+
+  recordRepairAttempt(): void {
+    this.repairAttempts++;
+  }
+
+  recordIssues(dropped: number, coerced: number): void {
+    this.droppedIssues += dropped;
+    this.coercedIssues += coerced;
+  }
+
+  getMetrics() {
+    return {
+      responses: { ...this.responses },
+      repairAttempts: this.repairAttempts,
+      droppedIssues: this.droppedIssues,
+      coercedIssues: this.coercedIssues,
+    };
+  }
+}
@@ -0,0 +1,70 @@
+import { validateAnalysis } from './analysis-schema';
+
+describe('validateAnalysis', () => {
+  it('accepts a response that matches the schema', () => {
+    const { result, droppedIssues, coercedIssues, errors } = validateAnalysis({
+      summary: 'Looks fine',
+      issues: [{ type: 'bug', severity: 'high', message: 'Off by one', file: 'src/a.ts', line: 3, suggestion: 'Use <' }],
+      positives: ['Good tests'],
+    });
+
+    expect(result).toEqual({
+      summary: 'Looks fine',
+      issues: [{ type: 'bug', severity: 'high', message: 'Off by one', filePath: 'src/a.ts', line: 3, suggestion: 'Use <' }],
+      positives: ['Good tests'],
+    });
+    expect({ droppedIssues, coercedIssues, errors }).toEqual({ droppedIssues: 0, coercedIssues: 0, errors: [] });
+  });
+
+  it('repairs common enum variants and line formats', () => {
+    const { result, coercedIssues } = validateAnalysis({
+      issues: [
+        { type: 'Vulnerability', severity: 'major', message: 'SQL injection', line: 'L12-14', suggestion: 'Bind parameters' },
+        { type: 'perf', severity: 'warning', message: 'N+1 query', line: '7' },
+      ],
+    });
+
+    expect(result.issues.map(issue => [issue.type, issue.severity, issue.line, issue.suggestion])).toEqual([
+      ['security', 'high', 12, 'Bind parameters'],
+      ['performance', 'medium', 7, ''],
+    ]);
+    expect(coercedIssues).toBe(2);
+  });
+
+  it('drops issues that cannot be repaired and reports why', () => {
+    const { result, droppedIssues, errors } = validateAnalysis({
+      issues: [
+        'not an object',
+        { type: 'bug', severity: 'low' },
+        { type: 'nonsense', severity: 'low', message: 'x' },
+        { type: 'bug', severity: 'urgent', message: 'x' },
+        { type: 'style', severity: 'low', message: 'Long line' },
+      ],
+    });
+
+    expect(result.issues.map(issue => issue.message)).toEqual(['Long line']);
+    expect(droppedIssues).toBe(4);
+    expect(errors).toEqual([
+      'issues[0]: not an object',
+      'issues[1]: missing message',
+      'issues[2]: unknown type "nonsense"',
+      'issues[3]: unknown severity "urgent"',
+    ]);
+  });
+
+  it('keeps replacements with a valid range and drops the rest', () => {
+    const { result } = validateAnalysis({
+      issues: [
+        { type: 'bug', severity: 'low', message: 'a', replacement: { startLine: 4, code: 'fixed();' } },
+        { type: 'bug', severity: 'low', message: 'b', replacement: { startLine: 5, endLine: 2, code: 'x' } },
+      ],
+    });
+
+    expect(result.issues[0].replacement).toEqual({ startLine: 4, endLine: 4, original: undefined, code: 'fixed();' });
+    expect(result.issues[1].replacement).toBeUndefined();
+  });
+
+  it('throws when the response is not an object', () => {
+    expect(() => validateAnalysis([])).toThrow('Response is not a JSON object');
+  });
+});
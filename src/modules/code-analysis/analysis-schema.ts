@@ -0,0 +1,173 @@
+import type { CodeAnalysisResult, CodeIssue, SuggestedReplacement } from './code-analysis.service';
+
+export const ISSUE_TYPES: CodeIssue['type'][] = ['bug', 'security', 'performance', 'style', 'best-practice'];
+export const SEVERITIES: CodeIssue['severity'][] = ['low', 'medium', 'high', 'critical'];
+
+// Values models commonly produce instead of the requested enums
+const TYPE_ALIASES: Record<string, CodeIssue['type']> = {
+  error: 'bug',
+  logic: 'bug',
+  correctness: 'bug',
+  vulnerability: 'security',
+  perf: 'performance',
+  formatting: 'style',
+  readability: 'style',
+  bestpractice: 'best-practice',
+  'best practice': 'best-practice',
+  best_practice: 'best-practice',
+  maintainability: 'best-practice',
+};
+
+const SEVERITY_ALIASES: Record<string, CodeIssue['severity']> = {
+  info: 'low',
+  minor: 'low',
+  trivial: 'low',
+  warning: 'medium',
+  moderate: 'medium',
+  major: 'high',
+  error: 'high',
+  blocker: 'critical',
+};
+
+export interface AnalysisValidation {
+  result: CodeAnalysisResult;
+  /** Issues discarded because a required field was missing or unusable */
+  droppedIssues: number;
+  /** Issues kept after one or more fields were coerced to the schema */
+  coercedIssues: number;
+  errors: string[];
+}
+
+/**
+ * Validates a parsed model response against the `CodeAnalysisResult` schema.
+ * Throws when the top level is not an object; issues that cannot be repaired
+ * are dropped and recoverable fields are coerced.
+ */
+export function validateAnalysis(value: unknown): AnalysisValidation {
+  if (!isRecord(value)) {
+    throw new Error('Response is not a JSON object');
+  }
+
+  const errors: string[] = [];
+  let droppedIssues = 0;
+  let coercedIssues = 0;
+  const issues: CodeIssue[] = [];
+
+  const rawIssues = Array.isArray(value.issues) ? value.issues : [];
+  if (value.issues !== undefined && !Array.isArray(value.issues)) {
+    errors.push('"issues" is not an array');
+  }
+
+  rawIssues.forEach((raw, index) => {
+    const { issue, coerced, error } = validateIssue(raw);
+    if (!issue) {
+      droppedIssues++;
+      errors.push(`issues[${index}]: ${error}`);
+      return;
+    }
+
+    if (coerced) coercedIssues++;
+    issues.push(issue);
+  });
+
+  const positives = Array.isArray(value.positives)
+    ? value.positives.filter((p): p is string => typeof p === 'string' && p.trim().length > 0)
+    : [];
+
+  return {
+    result: {
+      summary: typeof value.summary === 'string' ? value.summary : '',
+      issues,
+      positives,
+    },
+    droppedIssues,
+    coercedIssues,
+    errors,
+  };
+}
+
+function validateIssue(raw: unknown): { issue?: CodeIssue; coerced: boolean; error?: string } {
+  if (!isRecord(raw)) {
+    return { coerced: false, error: 'not an object' };
+  }
+
+  const message = typeof raw.message === 'string' ? raw.message.trim() : '';
+  if (!message) {
+    return { coerced: false, error: 'missing message' };
+  }
+
+  const type = normalizeEnum(raw.type, ISSUE_TYPES, TYPE_ALIASES);
+  if (!type) {
+    return { coerced: false, error: `unknown type ${JSON.stringify(raw.type)}` };
+  }
+
+  const severity = normalizeEnum(raw.severity, SEVERITIES, SEVERITY_ALIASES);
+  if (!severity) {
+    return { coerced: false, error: `unknown severity ${JSON.stringify(raw.severity)}` };
+  }
+
+  const line = parseLine(raw.line);
+  const filePath = typeof raw.file === 'string' && raw.file.trim() ? raw.file.trim() : undefined;
+  const suggestion = typeof raw.suggestion === 'string' ? raw.suggestion : '';
+  const replacement = parseReplacement(raw.replacement);
+
+  const coerced =
+    type !== raw.type ||
+    severity !== raw.severity ||
+    (raw.line !== undefined && raw.line !== null && raw.line !== '' && line === undefined) ||
+    (line !== undefined && raw.line !== line && raw.line !== String(line)) ||
+    typeof raw.suggestion !== 'string' ||
+    (raw.replacement !== undefined && raw.replacement !== null && !replacement);
+
+  return {
+    issue: { type, severity, message, filePath, line, suggestion, ...(replacement && { replacement }) },
+    coerced,
+  };
+}
+
+function normalizeEnum<T extends string>(
+  value: unknown,
+  allowed: T[],
+  aliases: Record<string, T>,
+): T | undefined {
+  if (typeof value !== 'string') return undefined;
+
+  const normalized = value.trim().toLowerCase();
+  if ((allowed as string[]).includes(normalized)) return normalized as T;
+
+  return aliases[normalized];
+}
+
+/** Accepts 12, "12", "L12" and ranges like "12-15" (first line wins) */
+function parseLine(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return Number.isInteger(value) && value > 0 ? value : undefined;
+  }
+  if (typeof value !== 'string') return undefined;
+
+  const match = value.trim().match(/^L?(\d+)(?:\s*[-:]\s*L?\d+)?$/i);
+  if (!match) return undefined;
+
+  const line = parseInt(match[1], 10);
+  return line > 0 ? line : undefined;
+}
+
+/** Only checks the shape; the code is validated against the file later */
+function parseReplacement(value: unknown): SuggestedReplacement | undefined {
+  if (!isRecord(value) || typeof value.code !== 'string') return undefined;
+
+  const startLine = parseLine(value.startLine);
+  const endLine = value.endLine === undefined ? startLine : parseLine(value.endLine);
+  if (startLine === undefined || endLine === undefined || endLine < startLine) return undefined;
+
+  return {
+    startLine,
+    endLine,
+    original: typeof value.original === 'string' ? value.original : undefined,
+    code: value.code,
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,82 @@
+import { AstAnalyzerService } from './ast-analyzer.service';
+
+const SOURCE = `import { readFile } from 'fs/promises';
+import { unused } from './unused';
+
+async function load(path: string) {
+  return await readFile(path);
+}
+
+export function start(emitter: NodeJS.EventEmitter, value: any) {
+  load('a.txt');
+  emitter.on('data', async () => {
+    await load('b.txt');
+  });
+  setTimeout(async () => {
+    try {
+      await load('c.txt');
+    } catch (error) {
+      console.error(error);
+    }
+  }, 10);
+  try {
+    JSON.parse(value);
+  } catch {}
+}
+`;
+
+const ALL_LINES = new Set(SOURCE.split('\n').map((_, index) => index + 1));
+
+describe('AstAnalyzerService', () => {
+  const analyzer = new AstAnalyzerService();
+
+  it('supports TypeScript and JavaScript files only', () => {
+    expect(analyzer.supports('src/app.tsx')).toBe(true);
+    expect(analyzer.supports('lib/index.mjs')).toBe(true);
+    expect(analyzer.supports('README.md')).toBe(false);
+  });
+
+  it('reports each check on the line it applies to', () => {
+    const issues = analyzer.analyze('src/app.ts', SOURCE, ALL_LINES);
+
+    expect(issues.map(issue => [issue.ruleId, issue.line]).sort()).toEqual([
+      ['ast/empty-catch', 22],
+      ['ast/explicit-any', 8],
+      ['ast/floating-promise', 9],
+      ['ast/unhandled-await', 11],
+      ['ast/unused-import', 2],
+    ]);
+  });
+
+  it('only flags awaits in callbacks whose promise is ignored', () => {
+    const issues = analyzer.analyze('src/app.ts', SOURCE, ALL_LINES);
+    const lines = issues.filter(issue => issue.ruleId === 'ast/unhandled-await').map(issue => issue.line);
+
+    // Not in load(), whose caller gets the rejection, nor inside try/catch
+    expect(lines).toEqual([11]);
+  });
+
+  it('only reports findings on changed lines', () => {
+    const issues = analyzer.analyze('src/app.ts', SOURCE, new Set([8, 9]));
+
+    expect(issues.map(issue => issue.ruleId).sort()).toEqual(['ast/explicit-any', 'ast/floating-promise']);
+  });
+
+  it('keeps the React import of JSX files', () => {
+    const component = "import React from 'react';\nimport { useState } from 'react';\n\nexport const App = () => <div />;\n";
+
+    expect(analyzer.analyze('src/App.tsx', component, new Set([1, 2, 3, 4])).map(issue => issue.message)).toEqual([
+      '`useState` is imported but never used',
+    ]);
+    expect(analyzer.analyze('src/app.ts', "import React from 'react';\n", new Set([1])).map(issue => issue.ruleId)).toEqual([
+      'ast/unused-import',
+    ]);
+  });
+
+  it('skips disabled checks', () => {
+    const issues = analyzer.analyze('src/app.ts', SOURCE, ALL_LINES, ['ast/explicit-any', 'ast/unused-import']);
+
+    expect(issues.map(issue => issue.ruleId)).not.toContain('ast/explicit-any');
+    expect(issues.map(issue => issue.ruleId)).not.toContain('ast/unused-import');
+  });
+});
@@ -0,0 +1,299 @@
+import { Injectable, Logger } from '@nestjs/common';
+import * as ts from 'typescript';
+import type { CodeIssue } from './code-analysis.service';
+
+const SCRIPT_KINDS: Record<string, ts.ScriptKind> = {
+  ts: ts.ScriptKind.TS,
+  mts: ts.ScriptKind.TS,
+  cts: ts.ScriptKind.TS,
+  tsx: ts.ScriptKind.TSX,
+  js: ts.ScriptKind.JS,
+  mjs: ts.ScriptKind.JS,
+  cjs: ts.ScriptKind.JS,
+  jsx: ts.ScriptKind.JSX,
+};
+
+type Finding = Omit<CodeIssue, 'filePath' | 'line'> & { node: ts.Node };
+
+// Callers that ignore the callback's returned promise, so nothing up the
+// stack can handle a rejection
+const CALLBACK_SINKS = new Set(['on', 'once', 'addListener', 'addEventListener', 'setTimeout', 'setInterval', 'setImmediate']);
+
+/**
+ * Syntax-tree checks for TypeScript and JavaScript. Runs on the full
+ * post-change file and only reports findings on lines the diff added.
+ */
+@Injectable()
+export class AstAnalyzerService {
+  private readonly logger = new Logger(AstAnalyzerService.name);
+
+  supports(path: string): boolean {
+    return this.scriptKind(path) !== undefined;
+  }
+
+  analyze(
+    path: string,
+    content: string,
+    changedLines: Set<number>,
+    disabledRules: string[] = [],
+  ): CodeIssue[] {
+    const kind = this.scriptKind(path);
+    if (kind === undefined || changedLines.size === 0) return [];
+
+    let source: ts.SourceFile;
+    try {
+      source = ts.createSourceFile(path, content, ts.ScriptTarget.Latest, true, kind);
+    } catch (error) {
+      this.logger.warn(`Could not parse ${path}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return [];
+    }
+
+    const disabled = new Set(disabledRules);
+    const findings = [
+      ...this.findFloatingPromises(source),
+      ...this.findUnhandledAwaits(source),
+      ...this.findExplicitAny(source),
+      ...this.findUnusedImports(source),
+      ...this.findEmptyCatches(source),
+    ].filter(finding => !disabled.has(finding.ruleId as string));
+
+    const issues: CodeIssue[] = [];
+    for (const { node, ...finding } of findings) {
+      const line = this.firstChangedLine(source, node, changedLines);
+      if (line !== undefined) {
+        issues.push({ ...finding, filePath: path, line });
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Calls to async functions declared in this file, and `.then()` chains
+   * without a rejection handler, used as bare statements.
+   */
+  private findFloatingPromises(source: ts.SourceFile): Finding[] {
+    const asyncNames = new Set<string>();
+    const collect = (node: ts.Node) => {
+      if (this.isAsyncFunction(node)) {
+        const name = this.functionName(node);
+        if (name) asyncNames.add(name);
+      }
+      ts.forEachChild(node, collect);
+    };
+    collect(source);
+
+    const findings: Finding[] = [];
+    const visit = (node: ts.Node) => {
+      if (ts.isExpressionStatement(node) && ts.isCallExpression(node.expression)) {
+        const call = node.expression;
+        const callee = this.calleeName(call);
+        const unhandledThen = callee === 'then' && call.arguments.length < 2;
+
+        if ((callee && asyncNames.has(callee)) || unhandledThen) {
+          findings.push({
+            node,
+            type: 'bug',
+            severity: 'medium',
+            message: 'Promise is neither awaited nor handled; rejections will be unhandled',
+            suggestion: 'Await the call, return it, add a .catch() handler, or mark it intentional with `void`',
+            ruleId: 'ast/floating-promise',
+          });
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(source);
+
+    return findings;
+  }
+
+  /**
+   * Awaits outside try/catch in event listeners and timer callbacks. Elsewhere
+   * a rejection propagates to a caller that can handle it.
+   */
+  private findUnhandledAwaits(source: ts.SourceFile): Finding[] {
+    const findings: Finding[] = [];
+
+    const visit = (node: ts.Node, inTry: boolean, inCallback: boolean) => {
+      if (ts.isTryStatement(node)) {
+        visit(node.tryBlock, inTry || node.catchClause !== undefined, inCallback);
+        if (node.catchClause) visit(node.catchClause, inTry, inCallback);
+        if (node.finallyBlock) visit(node.finallyBlock, inTry, inCallback);
+        return;
+      }
+
+      // A nested function has its own error handling context
+      if (ts.isFunctionLike(node)) {
+        const callback = this.isCallbackSinkArgument(node);
+        ts.forEachChild(node, child => visit(child, false, callback));
+        return;
+      }
+
+      if (ts.isAwaitExpression(node) && inCallback && !inTry && !this.hasCatchHandler(node.expression)) {
+        findings.push({
+          node,
+          type: 'bug',
+          severity: 'medium',
+          message: 'Awaited call in a callback is not wrapped in try/catch; a rejection will be unhandled',
+          suggestion: 'Catch and handle the error inside the callback, since its caller ignores the returned promise',
+          ruleId: 'ast/unhandled-await',
+        });
+      }
+
+      ts.forEachChild(node, child => visit(child, inTry, inCallback));
+    };
+    visit(source, false, false);
+
+    return findings;
+  }
+
+  /** Whether a function is passed to e.g. `emitter.on()` or `setTimeout()` */
+  private isCallbackSinkArgument(node: ts.Node): boolean {
+    const parent = node.parent;
+    if (!parent || !ts.isCallExpression(parent) || !parent.arguments.includes(node as ts.Expression)) {
+      return false;
+    }
+
+    const callee = this.calleeName(parent);
+    return callee !== undefined && CALLBACK_SINKS.has(callee);
+  }
+
+  private findExplicitAny(source: ts.SourceFile): Finding[] {
+    const findings: Finding[] = [];
+
+    const visit = (node: ts.Node) => {
+      if (node.kind === ts.SyntaxKind.AnyKeyword) {
+        findings.push({
+          node,
+          type: 'best-practice',
+          severity: 'low',
+          message: 'Explicit `any` disables type checking',
+          suggestion: 'Use a specific type, a generic, or `unknown` with a type guard',
+          ruleId: 'ast/explicit-any',
+        });
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(source);
+
+    return findings;
+  }
+
+  private findUnusedImports(source: ts.SourceFile): Finding[] {
+    const imported: ts.Identifier[] = [];
+
+    for (const statement of source.statements) {
+      const clause = ts.isImportDeclaration(statement) ? statement.importClause : undefined;
+      if (!clause) continue;
+
+      if (clause.name) imported.push(clause.name);
+
+      const bindings = clause.namedBindings;
+      if (bindings && ts.isNamespaceImport(bindings)) {
+        imported.push(bindings.name);
+      } else if (bindings && ts.isNamedImports(bindings)) {
+        bindings.elements.forEach(element => imported.push(element.name));
+      }
+    }
+
+    if (imported.length === 0) return [];
+
+    // Count identifier uses outside import declarations
+    const used = new Set<string>();
+    const visit = (node: ts.Node) => {
+      if (ts.isImportDeclaration(node)) return;
+      if (ts.isIdentifier(node)) used.add(node.text);
+      ts.forEachChild(node, visit);
+    };
+    visit(source);
+
+    // The classic JSX transform compiles elements to calls on `React`
+    if (source.languageVariant === ts.LanguageVariant.JSX) used.add('React');
+
+    return imported
+      .filter(name => !used.has(name.text))
+      .map(name => ({
+        node: name,
+        type: 'best-practice' as const,
+        severity: 'low' as const,
+        message: `\`${name.text}\` is imported but never used`,
+        suggestion: 'Remove the unused import',
+        ruleId: 'ast/unused-import',
+      }));
+  }
+
+  private findEmptyCatches(source: ts.SourceFile): Finding[] {
+    const findings: Finding[] = [];
+
+    const visit = (node: ts.Node) => {
+      if (ts.isCatchClause(node) && node.block.statements.length === 0) {
+        // A comment inside the block documents an intentional swallow
+        const body = node.block.getText(source);
+        if (!body.includes('//') && !body.includes('/*')) {
+          findings.push({
+            node,
+            type: 'bug',
+            severity: 'medium',
+            message: 'Empty catch block silently swallows errors',
+            suggestion: 'Log or rethrow the error, or add a comment explaining why it is safe to ignore',
+            ruleId: 'ast/empty-catch',
+          });
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(source);
+
+    return findings;
+  }
+
+  private isAsyncFunction(node: ts.Node): boolean {
+    return (
+      (ts.isFunctionDeclaration(node) || ts.isMethodDeclaration(node) || ts.isArrowFunction(node) || ts.isFunctionExpression(node)) &&
+      (ts.getCombinedModifierFlags(node as ts.Declaration) & ts.ModifierFlags.Async) !== 0
+    );
+  }
+
+  private functionName(node: ts.Node): string | undefined {
+    if ((ts.isFunctionDeclaration(node) || ts.isMethodDeclaration(node)) && node.name && ts.isIdentifier(node.name)) {
+      return node.name.text;
+    }
+
+    // const load = async () => {}
+    if (node.parent && ts.isVariableDeclaration(node.parent) && ts.isIdentifier(node.parent.name)) {
+      return node.parent.name.text;
+    }
+
+    return undefined;
+  }
+
+  private calleeName(call: ts.CallExpression): string | undefined {
+    const callee = call.expression;
+    if (ts.isIdentifier(callee)) return callee.text;
+    if (ts.isPropertyAccessExpression(callee)) return callee.name.text;
+    return undefined;
+  }
+
+  /** `await promise.catch(...)` handles its own rejection */
+  private hasCatchHandler(expression: ts.Expression): boolean {
+    return ts.isCallExpression(expression) && this.calleeName(expression) === 'catch';
+  }
+
+  /** Reports on the first added line the node spans, if any */
+  private firstChangedLine(source: ts.SourceFile, node: ts.Node, changedLines: Set<number>): number | undefined {
+    const start = source.getLineAndCharacterOfPosition(node.getStart(source)).line + 1;
+    const end = source.getLineAndCharacterOfPosition(node.getEnd()).line + 1;
+
+    for (let line = start; line <= end; line++) {
+      if (changedLines.has(line)) return line;
+    }
+
+    return undefined;
+  }
+
+  private scriptKind(path: string): ts.ScriptKind | undefined {
+    const extension = path.split('.').pop()?.toLowerCase() ?? '';
+    return path.endsWith('.d.ts') ? undefined : SCRIPT_KINDS[extension];
+  }
+}
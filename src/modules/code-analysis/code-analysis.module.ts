@@ -1,9 +1,30 @@
 import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { CodeAnalysisService } from './code-analysis.service';
-import { OpenAIService } from './openai.service';
+import { AIReviewService } from './ai-review.service';
+import { AnalysisMetricsService } from './analysis-metrics.service';
+import { RuleEngineService } from './rules/rule-engine.service';
+import { SecretScannerService } from './secret-scanner.service';
+import { AstAnalyzerService } from './ast-analyzer.service';
+import { AI_PROVIDER } from './providers/ai-provider.interface';
+import { createAIProvider } from './providers/ai-provider.factory';
+import { AppConfig } from '../../common/interfaces/config.interface';
 
 @Module({
-  providers: [CodeAnalysisService, OpenAIService],
-  exports: [CodeAnalysisService],
+  providers: [
+    CodeAnalysisService,
+    AIReviewService,
+    AnalysisMetricsService,
+    RuleEngineService,
+    SecretScannerService,
+    AstAnalyzerService,
+    {
+      provide: AI_PROVIDER,
+      useFactory: (configService: ConfigService<AppConfig, true>) =>
+        createAIProvider(configService.get('ai', { infer: true })),
+      inject: [ConfigService],
+    },
+  ],
+  exports: [CodeAnalysisService, AnalysisMetricsService],
 })
 export class CodeAnalysisModule {}
\ No newline at end of file
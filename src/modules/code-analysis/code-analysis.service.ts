@@ -1,12 +1,88 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { OpenAIService } from './openai.service';
+import { ConfigService } from '@nestjs/config';
+import { AIReviewService } from './ai-review.service';
+import { chunkDiff } from './diff-chunker';
+import { RuleEngineService } from './rules/rule-engine.service';
+import { SecretScannerService } from './secret-scanner.service';
+import { AstAnalyzerService } from './ast-analyzer.service';
+import { ReviewRule } from './rules/rule.interface';
+import { contextHash, fingerprintFinding, mergeFindings } from './finding-identity';
+import { resolveReplacement } from './suggestion-validator';
+import { ParsedDiff } from '../../common/interfaces/diff.interface';
+import { findDiffFile, getAddedLines } from '../../common/utils/diff-parser';
+import { AppConfig } from '../../common/interfaces/config.interface';
+import { mapWithConcurrency } from '../../common/utils/concurrency';
+
+/** Concrete new code for a range of new-side lines */
+export interface SuggestedReplacement {
+  startLine: number;
+  endLine: number;
+  /** The current code of the range as the model saw it; dropped once validated */
+  original?: string;
+  code: string;
+}
 
 export interface CodeIssue {
   type: 'bug' | 'security' | 'performance' | 'style' | 'best-practice';
   severity: 'low' | 'medium' | 'high' | 'critical';
   message: string;
-  line?: string;
+  filePath?: string;
+  /** Line number on the new side of the diff */
+  line?: number;
   suggestion: string;
+  /** Id of the rule that produced the finding; unset for AI findings */
+  ruleId?: string;
+  /** Line-independent identity, see `fingerprintFinding` */
+  fingerprint?: string;
+  /** Hash of the code around the finding, see `contextHash` */
+  contextHash?: string;
+  /** Auto-applicable fix, only set once validated against the file */
+  replacement?: SuggestedReplacement;
+}
+
+export interface AnalysisOptions {
+  /** Repository-specific reviewer instructions appended to the prompt */
+  instructions?: string;
+  /** Repository rules run alongside the built-in rules */
+  customRules?: ReviewRule[];
+  /** Rule ids to skip */
+  disabledRules?: string[];
+  /**
+   * Loads the post-change content of a file, enabling syntax-tree checks.
+   * Resolves to null when the file cannot be read.
+   */
+  loadFile?: (path: string) => Promise<string | null>;
+}
+
+/** A posted finding and the code it refers to, as seen on its review thread */
+export interface FindingContext {
+  /** The finding as rendered in the review comment */
+  comment: string;
+  filePath?: string;
+  line?: number;
+  /** The diff hunk GitHub shows above the comment */
+  diffHunk?: string;
+}
+
+export interface ThreadMessage {
+  author: string;
+  body: string;
+  /** Posted by this bot */
+  bot: boolean;
+}
+
+/** A review thread on one of the bot's findings */
+export interface FindingDiscussion {
+  finding: Pick<CodeIssue, 'type' | 'severity' | 'message' | 'suggestion' | 'filePath' | 'line'>;
+  diffHunk?: string;
+  /** The thread's messages, oldest first */
+  thread: ThreadMessage[];
+}
+
+export interface DiscussionResponse {
+  reply: string;
+  /** The finding was shown to be wrong or not applicable */
+  concede: boolean;
 }
 
 export interface CodeAnalysisResult {
@@ -19,14 +95,23 @@ export interface CodeAnalysisResult {
 export class CodeAnalysisService {
   private readonly logger = new Logger(CodeAnalysisService.name);
 
-  constructor(private readonly openaiService: OpenAIService) {}
+  constructor(
+    private readonly aiReviewService: AIReviewService,
+    private readonly ruleEngineService: RuleEngineService,
+    private readonly secretScannerService: SecretScannerService,
+    private readonly astAnalyzerService: AstAnalyzerService,
+    private readonly configService: ConfigService<AppConfig, true>,
+  ) {}
 
-  async analyzeCode(diff: string): Promise<CodeAnalysisResult> {
-    this.logger.log('Starting code analysis');
+  async analyzeCode(diff: ParsedDiff, options: AnalysisOptions = {}): Promise<CodeAnalysisResult> {
+    this.logger.log(`Starting code analysis of ${diff.files.length} files`);
+
+    // Syntax-tree checks and suggestion validation read the same files
+    options = { ...options, loadFile: options.loadFile && this.cacheLoader(options.loadFile) };
 
     try {
       // Basic validation
-      if (!diff || diff.trim().length === 0) {
+      if (!diff.files.some(file => file.hunks.length > 0)) {
         return {
           summary: 'No code changes detected',
           issues: [],
@@ -34,121 +119,194 @@ export class CodeAnalysisService {
         };
       }
 
-      // Use OpenAI to analyze the code
-      const analysis = await this.openaiService.analyzeCodeDiff(diff);
+      // Use the AI provider to analyze the code, one token-budgeted chunk at a
+      // time. Secrets never leave the process: the model only sees them redacted
+      const analysis = await this.analyzeInChunks(this.secretScannerService.redactDiff(diff), options);
 
-      // Apply additional heuristic checks
-      const heuristicIssues = this.performHeuristicAnalysis(diff);
+      // Apply additional rule-based checks
+      const heuristicIssues = await this.runStaticAnalysis(diff, options);
 
-      // Combine results
+      // Combine results, merging findings both sources reported
       const combinedIssues = [...(analysis.issues || []), ...heuristicIssues];
 
       return {
         summary: analysis.summary || 'Code analysis completed',
-        issues: combinedIssues,
+        issues: await this.validateReplacements(diff, this.consolidateIssues(diff, combinedIssues), options),
         positives: analysis.positives || [],
       };
     } catch (error) {
       this.logger.error(`Code analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
 
-      // Fallback to heuristic analysis only
-      const heuristicIssues = this.performHeuristicAnalysis(diff);
+      // Fallback to rule-based analysis only
+      const heuristicIssues = await this.runStaticAnalysis(diff, options);
 
       return {
         summary: 'Analysis completed with basic checks only (AI analysis unavailable)',
-        issues: heuristicIssues,
+        issues: this.consolidateIssues(diff, heuristicIssues),
         positives: [],
       };
     }
   }
 
-  private performHeuristicAnalysis(diff: string): CodeIssue[] {
-    const issues: CodeIssue[] = [];
-    const lines = diff.split('\n');
+  /** Explains a posted finding in more depth. Secrets in the code are redacted */
+  async explainFinding(context: FindingContext): Promise<string> {
+    return await this.aiReviewService.explainFinding({
+      ...context,
+      diffHunk: context.diffHunk && this.secretScannerService.redactText(context.diffHunk),
+    });
+  }
 
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
+  /** Answers the latest message on a finding's review thread. Secrets are redacted */
+  async discussFinding(discussion: FindingDiscussion): Promise<DiscussionResponse> {
+    const redact = (text: string) => this.secretScannerService.redactText(text);
 
-      // Skip non-addition lines
-      if (!line.startsWith('+')) continue;
+    return await this.aiReviewService.discussFinding({
+      ...discussion,
+      diffHunk: discussion.diffHunk && redact(discussion.diffHunk),
+      thread: discussion.thread.map(message => ({ ...message, body: redact(message.body) })),
+    });
+  }
 
-      const content = line.substring(1).trim();
+  private consolidateIssues(diff: ParsedDiff, issues: CodeIssue[]): CodeIssue[] {
+    const merged = mergeFindings(issues);
+    if (merged.length < issues.length) {
+      this.logger.log(`Merged ${issues.length - merged.length} duplicate findings`);
+    }
 
-      // Check for potential security issues
-      if (this.containsSecurityRisk(content)) {
-        issues.push({
-          type: 'security',
-          severity: 'high',
-          message: 'Potential security risk detected',
-          line: (i + 1).toString(),
-          suggestion: 'Review for security implications and add proper validation',
-        });
-      }
+    return merged.map(issue => ({
+      ...issue,
+      fingerprint: fingerprintFinding(issue),
+      contextHash: contextHash(diff, issue.filePath, issue.line),
+    }));
+  }
 
-      // Check for TODO/FIXME comments
-      if (content.includes('TODO') || content.includes('FIXME')) {
-        issues.push({
-          type: 'best-practice',
-          severity: 'low',
-          message: 'TODO/FIXME comment found',
-          line: (i + 1).toString(),
-          suggestion: 'Consider creating a proper issue tracker item',
-        });
+  /**
+   * Keeps only replacements that apply cleanly to the post-change file;
+   * the rest fall back to their prose suggestion
+   */
+  private async validateReplacements(diff: ParsedDiff, issues: CodeIssue[], options: AnalysisOptions): Promise<CodeIssue[]> {
+    const { loadFile } = options;
+    let dropped = 0;
+
+    const validated = await Promise.all(issues.map(async ({ replacement, ...issue }) => {
+      if (!replacement) return issue;
+
+      const file = issue.filePath ? findDiffFile(diff, issue.filePath) : undefined;
+      let content: string | null = null;
+      try {
+        content = file && loadFile ? await loadFile(file.path) : null;
+      } catch (error) {
+        // Treated like a missing file below
       }
 
-      // Check for console.log statements
-      if (content.includes('console.log')) {
-        issues.push({
-          type: 'best-practice',
-          severity: 'low',
-          message: 'Console.log statement found',
-          line: (i + 1).toString(),
-          suggestion: 'Use proper logging framework instead of console.log',
-        });
+      const resolved = file && content !== null ? resolveReplacement(replacement, content, file, issue.line) : undefined;
+      if (!resolved) dropped++;
+
+      return resolved ? { ...issue, replacement: resolved } : issue;
+    }));
+
+    if (dropped > 0) {
+      this.logger.log(`Dropped ${dropped} suggested replacements that did not match the code`);
+    }
+
+    return validated;
+  }
+
+  private cacheLoader(loadFile: (path: string) => Promise<string | null>): (path: string) => Promise<string | null> {
+    const cache = new Map<string, Promise<string | null>>();
+
+    return path => {
+      let content = cache.get(path);
+      if (!content) {
+        content = loadFile(path);
+        cache.set(path, content);
       }
+      return content;
+    };
+  }
+
+  private async analyzeInChunks(diff: ParsedDiff, options: AnalysisOptions): Promise<CodeAnalysisResult> {
+    const { chunkTokenBudget, maxConcurrency } = this.configService.get('ai', { infer: true });
+    const chunks = chunkDiff(diff, chunkTokenBudget);
 
-      // Check for missing error handling
-      if (content.includes('await ') && !this.hasErrorHandling(lines, i)) {
-        issues.push({
-          type: 'bug',
-          severity: 'medium',
-          message: 'Async operation without error handling',
-          line: (i + 1).toString(),
-          suggestion: 'Add try-catch block or proper error handling',
-        });
+    this.logger.log(`Analyzing ${chunks.length} chunks with concurrency ${maxConcurrency}`);
+
+    const results = await mapWithConcurrency(chunks, maxConcurrency, async (chunk, index) => {
+      try {
+        return await this.aiReviewService.analyzeCodeDiff(chunk, options.instructions);
+      } catch (error) {
+        this.logger.warn(`Analysis of chunk ${index + 1}/${chunks.length} failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        return null;
       }
+    });
+
+    const succeeded: CodeAnalysisResult[] = results.filter((result): result is CodeAnalysisResult => result !== null);
+    if (succeeded.length === 0) {
+      throw new Error('All analysis chunks failed');
+    }
+
+    const issues = succeeded.flatMap(result => result.issues || []);
+    const positives = [...new Set(succeeded.flatMap(result => result.positives || []))];
+    let summary = await this.consolidateSummaries(succeeded.map(result => result.summary).filter(Boolean));
+
+    const failed = chunks.length - succeeded.length;
+    if (failed > 0) {
+      summary += `\n\n_AI analysis was unavailable for ${failed} of ${chunks.length} parts of this change; those parts received basic checks only._`;
     }
 
-    return issues;
+    return { summary, issues, positives };
   }
 
-  private containsSecurityRisk(content: string): boolean {
-    const securityPatterns = [
-      /eval\s*\(/,
-      /innerHTML\s*=/,
-      /document\.write\s*\(/,
-      /\.exec\s*\(/,
-      /process\.env\./,
-      /localStorage\./,
-      /sessionStorage\./,
-    ];
+  private async consolidateSummaries(summaries: string[]): Promise<string> {
+    if (summaries.length <= 1) {
+      return summaries[0] || 'Code analysis completed';
+    }
 
-    return securityPatterns.some(pattern => pattern.test(content));
+    try {
+      return await this.aiReviewService.summarizeAnalyses(summaries);
+    } catch (error) {
+      this.logger.warn('Summary consolidation failed, joining partial summaries');
+      return summaries.join('\n\n');
+    }
   }
 
-  private hasErrorHandling(lines: string[], currentIndex: number): boolean {
-    // Look for try-catch blocks around the current line
-    const searchRange = 10; // Look 10 lines before and after
-    const start = Math.max(0, currentIndex - searchRange);
-    const end = Math.min(lines.length, currentIndex + searchRange);
+  private async runStaticAnalysis(diff: ParsedDiff, options: AnalysisOptions): Promise<CodeIssue[]> {
+    return [
+      ...this.secretScannerService.scan(diff, options.disabledRules),
+      ...this.ruleEngineService.run(diff, {
+        customRules: options.customRules,
+        disabledRules: options.disabledRules,
+      }),
+      ...(await this.runAstAnalysis(diff, options)),
+    ];
+  }
+
+  private async runAstAnalysis(diff: ParsedDiff, options: AnalysisOptions): Promise<CodeIssue[]> {
+    const { loadFile } = options;
+    if (!loadFile) return [];
+
+    const files = diff.files.filter(file =>
+      !file.isBinary && file.status !== 'deleted' && this.astAnalyzerService.supports(file.path),
+    );
+    const { maxConcurrency } = this.configService.get('ai', { infer: true });
 
-    for (let i = start; i < end; i++) {
-      const line = lines[i].trim();
-      if (line.includes('try {') || line.includes('catch')) {
-        return true;
+    const results = await mapWithConcurrency(files, maxConcurrency, async file => {
+      const changedLines = new Set(
+        getAddedLines(file).map(line => line.newLineNumber).filter((n): n is number => n !== undefined),
+      );
+      if (changedLines.size === 0) return [];
+
+      try {
+        const content = await loadFile(file.path);
+        return content === null
+          ? []
+          : this.astAnalyzerService.analyze(file.path, content, changedLines, options.disabledRules);
+      } catch (error) {
+        this.logger.warn(`Skipping syntax checks for ${file.path}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        return [];
       }
-    }
+    });
 
-    return false;
+    return results.flat();
   }
 }
\ No newline at end of file
@@ -0,0 +1,67 @@
+import { DiffFile, DiffLine } from '../../common/interfaces/diff.interface';
+import { chunkDiff, estimateTokens } from './diff-chunker';
+
+function file(path: string, lineCount: number, lineLength = 40): DiffFile {
+  const lines: DiffLine[] = Array.from({ length: lineCount }, (_, index) => ({
+    type: 'added',
+    content: 'x'.repeat(lineLength),
+    newLineNumber: index + 1,
+  }));
+
+  return {
+    oldPath: path,
+    newPath: path,
+    path,
+    status: 'modified',
+    isBinary: false,
+    hunks: [{ header: `@@ -0,0 +1,${lineCount} @@`, oldStart: 0, oldLines: 0, newStart: 1, newLines: lineCount, lines }],
+  };
+}
+
+describe('estimateTokens', () => {
+  it('counts about four characters per token', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcd')).toBe(1);
+    expect(estimateTokens('abcde')).toBe(2);
+  });
+});
+
+describe('chunkDiff', () => {
+  it('packs small files into one chunk', () => {
+    const chunks = chunkDiff({ files: [file('a.ts', 2), file('b.ts', 2)], raw: 'diff' }, 1000);
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].files.map(f => f.path)).toEqual(['a.ts', 'b.ts']);
+  });
+
+  it('starts a new chunk when the next file does not fit', () => {
+    // Each file costs 20 + header + 5 lines of 12 tokens, about 85 tokens
+    const chunks = chunkDiff({ files: [file('a.ts', 5), file('b.ts', 5), file('c.ts', 5)], raw: '' }, 200);
+
+    expect(chunks.map(chunk => chunk.files.map(f => f.path))).toEqual([['a.ts', 'b.ts'], ['c.ts']]);
+  });
+
+  it('splits a hunk larger than the budget into line windows', () => {
+    const chunks = chunkDiff({ files: [file('big.ts', 100)], raw: '' }, 200);
+    const hunks = chunks.flatMap(chunk => chunk.files.flatMap(f => f.hunks));
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(hunks.flatMap(hunk => hunk.lines.map(line => line.newLineNumber))).toEqual(
+      Array.from({ length: 100 }, (_, index) => index + 1),
+    );
+    expect(hunks[1].header).toBe(`@@ -0,0 +${hunks[1].newStart},${hunks[1].newLines} @@`);
+  });
+
+  it('skips binary files and files without hunks', () => {
+    const binary = { ...file('logo.png', 1), isBinary: true };
+    const modeOnly = { ...file('run.sh', 0), hunks: [] };
+
+    expect(chunkDiff({ files: [binary, modeOnly], raw: '' }, 1000)).toEqual([]);
+  });
+
+  it('leaves the raw diff out of chunks', () => {
+    const [chunk] = chunkDiff({ files: [file('a.ts', 1)], raw: 'the whole diff' }, 1000);
+
+    expect(chunk.raw).toBe('');
+  });
+});
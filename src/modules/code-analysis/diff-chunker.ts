@@ -0,0 +1,120 @@
+import { DiffFile, DiffHunk, DiffLine, ParsedDiff } from '../../common/interfaces/diff.interface';
+
+// Rough heuristic for code: ~4 characters per token, plus the line number
+// prefix and marker added when the diff is rendered into the prompt
+const CHARS_PER_TOKEN = 4;
+const LINE_OVERHEAD_TOKENS = 2;
+const FILE_OVERHEAD_TOKENS = 20;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Splits a diff into chunks that each fit within `tokenBudget`. Files are
+ * packed together while they fit, files larger than the budget are split
+ * by hunk, and hunks larger than the budget are split into line windows.
+ * Chunks do not carry the source diff's `raw` text, which holds every file.
+ */
+export function chunkDiff(diff: ParsedDiff, tokenBudget: number): ParsedDiff[] {
+  const chunks: ParsedDiff[] = [];
+  let files: DiffFile[] = [];
+  let used = 0;
+
+  const flush = () => {
+    if (files.length > 0) {
+      chunks.push({ files, raw: '' });
+      files = [];
+      used = 0;
+    }
+  };
+
+  for (const file of diff.files) {
+    if (file.isBinary || file.hunks.length === 0) continue;
+
+    for (const part of splitFile(file, tokenBudget)) {
+      const cost = estimateFileTokens(part);
+      if (used + cost > tokenBudget) flush();
+
+      files.push(part);
+      used += cost;
+    }
+  }
+
+  flush();
+  return chunks;
+}
+
+function splitFile(file: DiffFile, tokenBudget: number): DiffFile[] {
+  if (estimateFileTokens(file) <= tokenBudget) return [file];
+
+  const parts: DiffFile[] = [];
+  let hunks: DiffHunk[] = [];
+  let used = FILE_OVERHEAD_TOKENS;
+
+  for (const hunk of file.hunks.flatMap(h => splitHunk(h, tokenBudget - FILE_OVERHEAD_TOKENS))) {
+    const cost = estimateHunkTokens(hunk);
+    if (hunks.length > 0 && used + cost > tokenBudget) {
+      parts.push({ ...file, hunks });
+      hunks = [];
+      used = FILE_OVERHEAD_TOKENS;
+    }
+
+    hunks.push(hunk);
+    used += cost;
+  }
+
+  if (hunks.length > 0) parts.push({ ...file, hunks });
+  return parts;
+}
+
+function splitHunk(hunk: DiffHunk, tokenBudget: number): DiffHunk[] {
+  if (estimateHunkTokens(hunk) <= tokenBudget) return [hunk];
+
+  const windows: DiffLine[][] = [];
+  let lines: DiffLine[] = [];
+  let used = 0;
+
+  for (const line of hunk.lines) {
+    const cost = estimateLineTokens(line);
+    if (lines.length > 0 && used + cost > tokenBudget) {
+      windows.push(lines);
+      lines = [];
+      used = 0;
+    }
+
+    lines.push(line);
+    used += cost;
+  }
+
+  if (lines.length > 0) windows.push(lines);
+  return windows.map(window => toHunk(window));
+}
+
+function toHunk(lines: DiffLine[]): DiffHunk {
+  const oldNumbers = lines.map(l => l.oldLineNumber).filter((n): n is number => n !== undefined);
+  const newNumbers = lines.map(l => l.newLineNumber).filter((n): n is number => n !== undefined);
+  const oldStart = oldNumbers[0] ?? 0;
+  const newStart = newNumbers[0] ?? 0;
+
+  return {
+    header: `@@ -${oldStart},${oldNumbers.length} +${newStart},${newNumbers.length} @@`,
+    oldStart,
+    oldLines: oldNumbers.length,
+    newStart,
+    newLines: newNumbers.length,
+    lines,
+  };
+}
+
+function estimateFileTokens(file: DiffFile): number {
+  return FILE_OVERHEAD_TOKENS + file.hunks.reduce((sum, hunk) => sum + estimateHunkTokens(hunk), 0);
+}
+
+function estimateHunkTokens(hunk: DiffHunk): number {
+  return estimateTokens(hunk.header) + hunk.lines.reduce((sum, line) => sum + estimateLineTokens(line), 0);
+}
+
+function estimateLineTokens(line: DiffLine): number {
+  return LINE_OVERHEAD_TOKENS + estimateTokens(line.content);
+}
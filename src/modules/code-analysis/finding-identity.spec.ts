@@ -0,0 +1,115 @@
+import { parseUnifiedDiff } from '../../common/utils/diff-parser';
+import type { CodeIssue } from './code-analysis.service';
+import { compareFindings, contextHash, fingerprintFinding, isSameFinding, mergeFindings } from './finding-identity';
+
+function issue(overrides: Partial<CodeIssue> = {}): CodeIssue {
+  return {
+    type: 'bug',
+    severity: 'medium',
+    message: 'The result of fetchUser is not checked for null',
+    filePath: 'src/user.ts',
+    line: 10,
+    suggestion: '',
+    ...overrides,
+  };
+}
+
+describe('fingerprintFinding', () => {
+  it('ignores line numbers, code spans and wording noise', () => {
+    expect(fingerprintFinding(issue({ line: 40, message: 'The RESULT of fetchUser is not checked for null (`user?.id`, 2x)!' })))
+      .toBe(fingerprintFinding(issue()));
+  });
+
+  it('identifies rule findings by rule id', () => {
+    const a = issue({ ruleId: 'security/eval', message: 'one wording' });
+    const b = issue({ ruleId: 'security/eval', message: 'another wording' });
+
+    expect(fingerprintFinding(a)).toBe(fingerprintFinding(b));
+    expect(fingerprintFinding(a)).not.toBe(fingerprintFinding({ ...a, filePath: 'src/other.ts' }));
+  });
+});
+
+describe('contextHash', () => {
+  const lines = ' a\n b\n c\n+D\n e\n f\n g\n';
+  const before = parseUnifiedDiff(`diff --git a/a.ts b/a.ts\n@@ -1,6 +1,7 @@\n${lines}`);
+  const shifted = parseUnifiedDiff(`diff --git a/a.ts b/a.ts\n@@ -1,6 +1,8 @@\n+zero\n${lines}`);
+
+  it('follows code that moved to another line', () => {
+    expect(contextHash(shifted, 'a.ts', 5)).toBe(contextHash(before, 'a.ts', 4));
+  });
+
+  it('changes when the surrounding code changes', () => {
+    expect(contextHash(shifted, 'a.ts', 4)).not.toBe(contextHash(before, 'a.ts', 4));
+  });
+});
+
+describe('isSameFinding', () => {
+  it('matches similar wording on the same file and type', () => {
+    expect(isSameFinding(issue(), issue({ message: 'fetchUser result not checked for null before use' }))).toBe(true);
+    expect(isSameFinding(issue(), issue({ message: 'Loop never terminates' }))).toBe(false);
+    expect(isSameFinding(issue(), issue({ type: 'security' }))).toBe(false);
+  });
+
+  it('compares rule ids when both findings have one', () => {
+    expect(isSameFinding(issue({ ruleId: 'a' }), issue({ ruleId: 'b' }))).toBe(false);
+  });
+});
+
+describe('compareFindings', () => {
+  it('splits findings into added, fixed and still open', () => {
+    const open = issue();
+    const fixed = issue({ message: 'Loop never terminates', line: 20 });
+    const elsewhere = issue({ filePath: 'src/untouched.ts', message: 'Unbounded cache' });
+    const added = issue({ message: 'Password is logged', type: 'security' });
+
+    const changes = compareFindings([open, fixed, elsewhere], [{ ...open, line: 12 }, added], new Set(['src/user.ts']));
+
+    expect(changes.added).toEqual([added]);
+    expect(changes.fixed).toEqual([fixed]);
+    expect(changes.stillOpen).toEqual([{ ...open, line: 12 }, elsewhere]);
+  });
+});
+
+describe('mergeFindings', () => {
+  const rule = issue({
+    type: 'best-practice',
+    severity: 'low',
+    message: 'Console.log statement found',
+    ruleId: 'best-practice/console-log',
+  });
+
+  it('merges an AI finding that names the rule on the same line', () => {
+    const ai = issue({
+      type: 'best-practice',
+      severity: 'medium',
+      message: 'Leftover debug output (console-log) leaks user data to the browser console',
+      suggestion: 'Remove it',
+    });
+
+    const [merged, ...rest] = mergeFindings([rule, ai]);
+
+    expect(rest).toEqual([]);
+    expect(merged).toMatchObject({ message: ai.message, severity: 'medium', ruleId: 'best-practice/console-log', line: 10 });
+  });
+
+  it('keeps an unrelated AI finding on the same line', () => {
+    const ai = issue({ type: 'best-practice', message: 'Magic number should be a named constant' });
+
+    expect(mergeFindings([rule, ai])).toHaveLength(2);
+  });
+
+  it('keeps findings of the same rule on adjacent lines apart', () => {
+    const token = issue({ type: 'security', severity: 'critical', message: 'Possible GitHub token committed', ruleId: 'secrets/github-token' });
+    const merged = mergeFindings([10, 11, 12].map(line => ({ ...token, line })));
+
+    expect(merged.map(finding => finding.line)).toEqual([10, 11, 12]);
+    expect(mergeFindings([token, { ...token }])).toHaveLength(1);
+  });
+
+  it('merges near-identical findings a line or two apart', () => {
+    const merged = mergeFindings([issue(), issue({ line: 12, severity: 'high', message: 'fetchUser result is not checked for null' })]);
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0].severity).toBe('high');
+  });
+});
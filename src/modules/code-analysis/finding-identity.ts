@@ -0,0 +1,182 @@
+import { createHash } from 'crypto';
+import { ParsedDiff } from '../../common/interfaces/diff.interface';
+import { findDiffFile } from '../../common/utils/diff-parser';
+import type { CodeIssue } from './code-analysis.service';
+import { SEVERITIES } from './analysis-schema';
+
+/** The fields that identify a finding, shared by `CodeIssue` and stored comments */
+export interface FindingKey {
+  filePath?: string;
+  type: string;
+  message: string;
+  ruleId?: string;
+  fingerprint?: string;
+}
+
+// Findings within this many lines of each other may describe the same code
+const LINE_TOLERANCE = 2;
+// Lines either side of a finding hashed to detect whether its code changed
+const CONTEXT_LINES = 2;
+const SIMILARITY_THRESHOLD = 0.5;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'is', 'are', 'be', 'this', 'that', 'it', 'of', 'to', 'in', 'on',
+  'for', 'and', 'or', 'with', 'without', 'found', 'detected', 'may', 'could', 'should',
+  'consider', 'potential', 'possible', 'statement',
+]);
+
+/** Lowercased content words of a message, ignoring code spans and numbers */
+export function messageTokens(message: string): Set<string> {
+  const words = message
+    .toLowerCase()
+    .replace(/`[^`]*`/g, ' ')
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word));
+
+  return new Set(words);
+}
+
+/**
+ * Stable identity of a finding regardless of its line number: rule findings
+ * are identified by rule id, AI findings by their normalized wording.
+ */
+export function fingerprintFinding(issue: FindingKey): string {
+  const subject = issue.ruleId ?? [...messageTokens(issue.message)].sort().join(' ');
+  return createHash('sha256')
+    .update([issue.filePath ?? '', issue.type, subject].join('\u0000'))
+    .digest('hex')
+    .substring(0, 32);
+}
+
+/**
+ * Hash of the new-side code around a line. Unchanged code keeps its hash
+ * when other edits shift its line number.
+ */
+export function contextHash(diff: ParsedDiff, filePath?: string, line?: number): string {
+  const file = filePath ? findDiffFile(diff, filePath) : undefined;
+  const lines = file && line !== undefined
+    ? file.hunks
+      .flatMap(hunk => hunk.lines)
+      .filter(l =>
+        l.type !== 'removed' &&
+        l.newLineNumber !== undefined &&
+        Math.abs(l.newLineNumber - line) <= CONTEXT_LINES,
+      )
+      .map(l => l.content.trim())
+    : [];
+
+  return createHash('sha256').update(lines.join('\n')).digest('hex').substring(0, 32);
+}
+
+/** Whether two findings on the same code describe the same problem */
+export function isSameFinding(a: FindingKey, b: FindingKey): boolean {
+  if (a.filePath !== b.filePath || a.type !== b.type) return false;
+  if (a.ruleId && b.ruleId) return a.ruleId === b.ruleId;
+  if (a.fingerprint && a.fingerprint === b.fingerprint) return true;
+
+  return similarity(messageTokens(a.message), messageTokens(b.message)) >= SIMILARITY_THRESHOLD;
+}
+
+export interface FindingChanges<T extends FindingKey> {
+  added: T[];
+  fixed: T[];
+  stillOpen: T[];
+}
+
+/**
+ * Compares a run's findings with those of the previous run. Previous findings
+ * in files this run did not analyze, e.g. outside an incremental diff, are
+ * still open rather than fixed.
+ */
+export function compareFindings<T extends FindingKey>(
+  previous: T[],
+  current: T[],
+  analyzedPaths: Set<string>,
+): FindingChanges<T> {
+  const matched = new Set<T>();
+  const stillOpen: T[] = [];
+  const fixed: T[] = [];
+
+  for (const finding of previous) {
+    const match = current.find(issue => !matched.has(issue) && isSameFinding(finding, issue));
+    if (match) {
+      matched.add(match);
+      stillOpen.push(match);
+    } else if (finding.filePath && !analyzedPaths.has(finding.filePath)) {
+      stillOpen.push(finding);
+    } else {
+      fixed.push(finding);
+    }
+  }
+
+  return { added: current.filter(issue => !matched.has(issue)), fixed, stillOpen };
+}
+
+/**
+ * Merges findings within one run that point at the same code and problem,
+ * e.g. the AI and a rule both flagging a console.log. The richer explanation
+ * wins; the highest severity and any rule id are kept.
+ */
+export function mergeFindings(issues: CodeIssue[]): CodeIssue[] {
+  const merged: CodeIssue[] = [];
+
+  for (const issue of issues) {
+    const index = merged.findIndex(existing => isDuplicate(existing, issue));
+    if (index === -1) {
+      merged.push(issue);
+    } else {
+      merged[index] = combine(merged[index], issue);
+    }
+  }
+
+  return merged;
+}
+
+function isDuplicate(a: CodeIssue, b: CodeIssue): boolean {
+  if (a.filePath !== b.filePath || a.type !== b.type) return false;
+
+  // Rule findings have exact lines, so only AI findings may be a little off;
+  // the same rule matching adjacent lines reports separate problems
+  const sameLine = a.line === b.line;
+  const nearby = (!a.ruleId || !b.ruleId) &&
+    a.line !== undefined && b.line !== undefined && Math.abs(a.line - b.line) <= LINE_TOLERANCE;
+  if (!sameLine && !nearby) return false;
+
+  // An AI finding that names a rule on the very same line is that rule's finding
+  if (sameLine && (namesRule(a, b) || namesRule(b, a))) return true;
+
+  return isSameFinding(a, b);
+}
+
+/** Whether AI finding `ai` mentions the id of rule finding `rule`, e.g. `console-log` */
+function namesRule(ai: CodeIssue, rule: CodeIssue): boolean {
+  if (ai.ruleId || !rule.ruleId) return false;
+
+  const text = `${ai.message} ${ai.suggestion}`.toLowerCase();
+  const id = rule.ruleId.toLowerCase();
+  return text.includes(id) || text.includes(id.substring(id.lastIndexOf('/') + 1));
+}
+
+function combine(a: CodeIssue, b: CodeIssue): CodeIssue {
+  const richness = (issue: CodeIssue) => issue.message.length + issue.suggestion.length;
+  const richer = richness(b) > richness(a) ? b : a;
+  const ruled = a.ruleId ? a : b.ruleId ? b : undefined;
+
+  return {
+    ...richer,
+    severity: SEVERITIES.indexOf(a.severity) >= SEVERITIES.indexOf(b.severity) ? a.severity : b.severity,
+    // Rule findings have exact line numbers
+    line: ruled?.line ?? richer.line,
+    ruleId: ruled?.ruleId,
+  };
+}
+
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+
+  let shared = 0;
+  for (const token of a) if (b.has(token)) shared++;
+
+  return shared / (a.size + b.size - shared);
+}
@@ -0,0 +1,25 @@
+import { Logger } from '@nestjs/common';
+import { AIConfig } from '../../../common/interfaces/config.interface';
+import { AIProvider } from './ai-provider.interface';
+import { AnthropicProvider } from './anthropic.provider';
+import { MockAIProvider } from './mock.provider';
+import { OpenAIProvider } from './openai.provider';
+
+const logger = new Logger('AIProviderFactory');
+
+export function createAIProvider(config: AIConfig): AIProvider {
+  const apiKey = config.provider === 'anthropic' ? config.anthropicApiKey : config.openaiApiKey;
+  if (apiKey === 'test_key') {
+    logger.warn('Test API key configured. Using mock responses.');
+    return new MockAIProvider();
+  }
+
+  switch (config.provider) {
+    case 'anthropic':
+      return new AnthropicProvider(config);
+    case 'openai':
+      return new OpenAIProvider(config);
+    default:
+      throw new Error(`Unsupported AI provider: ${config.provider}`);
+  }
+}
@@ -0,0 +1,17 @@
+export const AI_PROVIDER = 'AI_PROVIDER';
+
+export interface AICompletionRequest {
+  systemPrompt: string;
+  userPrompt: string;
+  /** Overrides the configured `maxTokens` for short completions */
+  maxTokens?: number;
+}
+
+/**
+ * A chat-completion backend. Adapters only move text in and out; prompt
+ * building and response parsing live in `AIReviewService`.
+ */
+export interface AIProvider {
+  readonly name: string;
+  complete(request: AICompletionRequest): Promise<string>;
+}
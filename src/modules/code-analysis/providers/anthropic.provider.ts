@@ -0,0 +1,44 @@
+import { Logger } from '@nestjs/common';
+import Anthropic from '@anthropic-ai/sdk';
+import { AIConfig } from '../../../common/interfaces/config.interface';
+import { AICompletionRequest, AIProvider } from './ai-provider.interface';
+
+export class AnthropicProvider implements AIProvider {
+  readonly name = 'anthropic';
+  private readonly logger = new Logger(AnthropicProvider.name);
+  private readonly anthropic: Anthropic;
+
+  constructor(private readonly config: AIConfig) {
+    if (!config.anthropicApiKey) {
+      this.logger.warn('No Anthropic API key provided');
+    }
+
+    this.anthropic = new Anthropic({
+      apiKey: config.anthropicApiKey || 'dummy-key',
+    });
+  }
+
+  async complete(request: AICompletionRequest): Promise<string> {
+    try {
+      const response = await this.anthropic.messages.create({
+        model: this.config.anthropicModel || 'claude-3-sonnet-20240229',
+        system: request.systemPrompt,
+        messages: [
+          {
+            role: 'user',
+            content: request.userPrompt,
+          },
+        ],
+        temperature: this.config.temperature,
+        max_tokens: request.maxTokens ?? this.config.maxTokens,
+      });
+
+      return response.content
+        .map(block => (block.type === 'text' ? block.text : ''))
+        .join('');
+    } catch (error) {
+      this.logger.error(`Anthropic API error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error('Failed to get completion from Anthropic');
+    }
+  }
+}
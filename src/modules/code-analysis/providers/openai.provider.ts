@@ -0,0 +1,50 @@
+import { Logger } from '@nestjs/common';
+import { OpenAI } from 'openai';
+import { AIConfig } from '../../../common/interfaces/config.interface';
+import { AICompletionRequest, AIProvider } from './ai-provider.interface';
+
+/**
+ * OpenAI chat completions. With `openaiBaseUrl` set it also talks to any
+ * OpenAI-compatible server, e.g. a self-hosted vLLM or Ollama instance.
+ */
+export class OpenAIProvider implements AIProvider {
+  readonly name = 'openai';
+  private readonly logger = new Logger(OpenAIProvider.name);
+  private readonly openai: OpenAI;
+
+  constructor(private readonly config: AIConfig) {
+    if (!config.openaiApiKey && !config.openaiBaseUrl) {
+      this.logger.warn('No OpenAI API key provided');
+    }
+
+    this.openai = new OpenAI({
+      apiKey: config.openaiApiKey || 'dummy-key',
+      baseURL: config.openaiBaseUrl,
+    });
+  }
+
+  async complete(request: AICompletionRequest): Promise<string> {
+    try {
+      const response = await this.openai.chat.completions.create({
+        model: this.config.openaiModel || 'gpt-4',
+        messages: [
+          {
+            role: 'system',
+            content: request.systemPrompt,
+          },
+          {
+            role: 'user',
+            content: request.userPrompt,
+          },
+        ],
+        temperature: this.config.temperature,
+        max_tokens: request.maxTokens ?? this.config.maxTokens,
+      });
+
+      return response.choices[0].message.content || '';
+    } catch (error) {
+      this.logger.error(`OpenAI API error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error('Failed to get completion from OpenAI');
+    }
+  }
+}
@@ -0,0 +1,92 @@
+import { ReviewRule } from './rule.interface';
+
+const JS_TS = ['javascript', 'typescript'];
+
+export const SECURITY_RULES: ReviewRule[] = [
+  {
+    id: 'security/eval',
+    pattern: '\\beval\\s*\\(',
+    languages: JS_TS,
+    type: 'security',
+    severity: 'high',
+    message: 'eval() executes arbitrary code',
+    suggestion: 'Avoid eval(); parse data with JSON.parse or use a lookup table instead',
+  },
+  {
+    id: 'security/inner-html',
+    pattern: '\\.innerHTML\\s*=',
+    languages: JS_TS,
+    type: 'security',
+    severity: 'high',
+    message: 'Assigning to innerHTML can introduce cross-site scripting (XSS)',
+    suggestion: 'Use textContent, or sanitize the HTML before inserting it',
+  },
+  {
+    id: 'security/document-write',
+    pattern: '\\bdocument\\.write(?:ln)?\\s*\\(',
+    languages: JS_TS,
+    type: 'security',
+    severity: 'high',
+    message: 'document.write() can introduce cross-site scripting (XSS)',
+    suggestion: 'Build DOM nodes with createElement and textContent instead',
+  },
+  {
+    id: 'security/shell-exec',
+    pattern: '(?:child_process|\\bcp)\\.exec(?:Sync)?\\s*\\(|(?<![.\\w])exec(?:Sync)?\\s*\\(',
+    languages: JS_TS,
+    type: 'security',
+    severity: 'high',
+    message: 'Shell command execution can allow command injection',
+    suggestion: 'Use execFile/spawn with an argument array and never pass user input to a shell',
+  },
+  {
+    id: 'security/web-storage',
+    pattern: '\\b(?:localStorage|sessionStorage)\\.',
+    languages: JS_TS,
+    type: 'security',
+    severity: 'medium',
+    message: 'Web storage is readable by any script running on the page',
+    suggestion: 'Do not keep tokens or personal data in localStorage/sessionStorage',
+  },
+];
+
+export const BEST_PRACTICE_RULES: ReviewRule[] = [
+  {
+    id: 'best-practice/todo-comment',
+    pattern: '\\b(?:TODO|FIXME)\\b',
+    type: 'best-practice',
+    severity: 'low',
+    message: 'TODO/FIXME comment found',
+    suggestion: 'Consider creating a proper issue tracker item',
+  },
+  {
+    id: 'best-practice/console-log',
+    pattern: '\\bconsole\\.log\\s*\\(',
+    languages: JS_TS,
+    type: 'best-practice',
+    severity: 'low',
+    message: 'Console.log statement found',
+    suggestion: 'Use proper logging framework instead of console.log',
+  },
+];
+
+export const BUILTIN_RULES: ReviewRule[] = [
+  ...SECURITY_RULES,
+  ...BEST_PRACTICE_RULES,
+];
+
+/** Ids of the checks that preceded the rule packs, still accepted in `heuristics` */
+export const LEGACY_RULE_IDS: Record<string, string[]> = {
+  'security-risk': SECURITY_RULES.map(rule => rule.id),
+  'todo-comment': ['best-practice/todo-comment'],
+  'console-log': ['best-practice/console-log'],
+  'unhandled-await': ['ast/unhandled-await'],
+};
+
+// Rules reported by the syntax tree checks and the secret scanner
+const ANALYZER_RULE_PREFIXES = ['ast/', 'secrets/'];
+
+/** Whether a built-in rule, syntax tree check or secret pattern has this id */
+export function isBuiltinRuleId(id: string): boolean {
+  return BUILTIN_RULES.some(rule => rule.id === id) || ANALYZER_RULE_PREFIXES.some(prefix => id.startsWith(prefix));
+}
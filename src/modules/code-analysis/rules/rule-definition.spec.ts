@@ -0,0 +1,47 @@
+import { parseRuleDefinition, unsafePatternReason } from './rule-definition';
+
+const VALID = {
+  id: 'no-moment',
+  pattern: 'moment',
+  type: 'best-practice',
+  severity: 'low',
+  message: 'moment is deprecated here',
+};
+
+describe('parseRuleDefinition', () => {
+  it('returns a rule for a valid definition', () => {
+    const { rule, errors } = parseRuleDefinition({ ...VALID, languages: ['typescript'] });
+
+    expect(errors).toEqual([]);
+    expect(rule).toMatchObject({ id: 'no-moment', languages: ['typescript'], suggestion: '' });
+  });
+
+  it('lists every problem with an invalid definition', () => {
+    const { rule, errors } = parseRuleDefinition({ pattern: '(', type: 'typo', severity: 'low', languages: ['cobol'] });
+
+    expect(rule).toBeUndefined();
+    expect(errors).toEqual([
+      '`id` is required',
+      '`message` is required',
+      expect.stringContaining('`type` must be one of'),
+      expect.stringContaining('`languages` must be a list of'),
+      expect.stringContaining('`pattern` is not a valid regular expression'),
+    ]);
+  });
+
+  it('rejects patterns prone to catastrophic backtracking', () => {
+    expect(parseRuleDefinition({ ...VALID, pattern: '(\\w+\\s?)*$' }).errors).toEqual([
+      '`pattern` must not repeat a group that itself repeats, e.g. `(a+)+`',
+    ]);
+  });
+});
+
+describe('unsafePatternReason', () => {
+  it.each(['(a|b)*', "from ['\"]moment", '(\\d+)-\\d+', '[(a+)]+', '\\(a+\\)+', '(a{1,3})*'])('accepts %s', pattern => {
+    expect(unsafePatternReason(pattern)).toBeNull();
+  });
+
+  it.each(['(a+)+', '(?:x*y)*', '((a+))+', '(a{2,})+', '(x)\\1', '(?<q>x)\\k<q>', 'a'.repeat(301)])('rejects %s', pattern => {
+    expect(unsafePatternReason(pattern)).not.toBeNull();
+  });
+});
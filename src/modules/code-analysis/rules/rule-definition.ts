@@ -0,0 +1,161 @@
+import { ISSUE_TYPES, SEVERITIES } from '../analysis-schema';
+import { LANGUAGE_EXTENSIONS, ReviewRule } from './rule.interface';
+
+// Repository patterns run on every added line, so they are kept simple
+const MAX_PATTERN_LENGTH = 300;
+
+/**
+ * Validates a rule definition from repository config. Returns the rule, or
+ * the reasons it was rejected.
+ */
+export function parseRuleDefinition(raw: unknown): { rule?: ReviewRule; errors: string[] } {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { errors: ['must be a mapping'] };
+  }
+
+  const value = raw as Record<string, unknown>;
+  const errors: string[] = [];
+
+  for (const field of ['id', 'pattern', 'message'] as const) {
+    if (typeof value[field] !== 'string' || !(value[field] as string).trim()) {
+      errors.push(`\`${field}\` is required`);
+    }
+  }
+
+  if (!(ISSUE_TYPES as unknown[]).includes(value.type)) {
+    errors.push(`\`type\` must be one of: ${ISSUE_TYPES.join(', ')}`);
+  }
+  if (!(SEVERITIES as unknown[]).includes(value.severity)) {
+    errors.push(`\`severity\` must be one of: ${SEVERITIES.join(', ')}`);
+  }
+  if (value.suggestion !== undefined && typeof value.suggestion !== 'string') {
+    errors.push('`suggestion` must be a string');
+  }
+  if (value.multiline !== undefined && typeof value.multiline !== 'boolean') {
+    errors.push('`multiline` must be true or false');
+  }
+  if (value.files !== undefined && !isStringList(value.files)) {
+    errors.push('`files` must be a list of glob patterns');
+  }
+  if (value.languages !== undefined) {
+    const unknown = isStringList(value.languages)
+      ? value.languages.filter(language => !LANGUAGE_EXTENSIONS[language])
+      : ['(not a list)'];
+    if (unknown.length > 0) {
+      errors.push(`\`languages\` must be a list of: ${Object.keys(LANGUAGE_EXTENSIONS).join(', ')}`);
+    }
+  }
+
+  if (typeof value.pattern === 'string') {
+    const error = regexError(value.pattern, typeof value.flags === 'string' ? value.flags : undefined);
+    if (error) errors.push(`\`pattern\` is not a valid regular expression: ${error}`);
+    else {
+      const unsafe = unsafePatternReason(value.pattern);
+      if (unsafe) errors.push(`\`pattern\` ${unsafe}`);
+    }
+  }
+
+  let notWithin: ReviewRule['notWithin'];
+  if (value.notWithin !== undefined) {
+    const nw = value.notWithin as Record<string, unknown> | null;
+    if (
+      typeof nw !== 'object' || nw === null ||
+      typeof nw.pattern !== 'string' || regexError(nw.pattern) || unsafePatternReason(nw.pattern) ||
+      typeof nw.lines !== 'number' || nw.lines < 0
+    ) {
+      errors.push('`notWithin` must have a valid `pattern` and a non-negative `lines`');
+    } else {
+      notWithin = { pattern: nw.pattern, lines: nw.lines };
+    }
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    rule: {
+      id: value.id as string,
+      pattern: value.pattern as string,
+      flags: value.flags as string | undefined,
+      multiline: value.multiline as boolean | undefined,
+      files: value.files as string[] | undefined,
+      languages: value.languages as string[] | undefined,
+      notWithin,
+      type: value.type as ReviewRule['type'],
+      severity: value.severity as ReviewRule['severity'],
+      message: value.message as string,
+      suggestion: (value.suggestion as string | undefined) ?? '',
+    },
+    errors,
+  };
+}
+
+/**
+ * Why a repository pattern could take exponential time on crafted input, or
+ * null when it is safe to run: overly long patterns, backreferences and
+ * repeated groups that contain an unbounded repetition, e.g. `(a+)+`.
+ */
+export function unsafePatternReason(pattern: string): string | null {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    return `is longer than ${MAX_PATTERN_LENGTH} characters`;
+  }
+  if (/\\[1-9]|\\k</.test(pattern)) {
+    return 'must not use backreferences';
+  }
+
+  // Per open group, whether it contains an unbounded repetition
+  const groups: boolean[] = [];
+  let repeats = false;
+  let inClass = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '\\') {
+      i++;
+      repeats = false;
+    } else if (inClass) {
+      inClass = char !== ']';
+    } else if (char === '[') {
+      inClass = true;
+      repeats = false;
+    } else if (char === '(') {
+      groups.push(false);
+      repeats = false;
+    } else if (char === ')') {
+      const containsRepeat = groups.pop() ?? false;
+      if (isUnboundedQuantifier(pattern, i + 1)) {
+        if (containsRepeat) return 'must not repeat a group that itself repeats, e.g. `(a+)+`';
+        if (groups.length > 0) groups[groups.length - 1] = true;
+      } else if (containsRepeat && groups.length > 0) {
+        groups[groups.length - 1] = true;
+      }
+      repeats = false;
+    } else if (isUnboundedQuantifier(pattern, i) && !repeats) {
+      if (groups.length > 0) groups[groups.length - 1] = true;
+      repeats = true;
+    }
+  }
+
+  return null;
+}
+
+/** Whether an unbounded quantifier (`*`, `+` or `{n,}`) starts at `index` */
+function isUnboundedQuantifier(pattern: string, index: number): boolean {
+  const char = pattern[index];
+  return char === '*' || char === '+' || /^\{\d+,\}/.test(pattern.substring(index));
+}
+
+function regexError(pattern: string, flags?: string): string | null {
+  try {
+    new RegExp(pattern, flags);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'invalid';
+  }
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
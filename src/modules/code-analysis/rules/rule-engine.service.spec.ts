@@ -0,0 +1,73 @@
+import { parseUnifiedDiff } from '../../../common/utils/diff-parser';
+import { RuleEngineService } from './rule-engine.service';
+import { ReviewRule } from './rule.interface';
+
+function diffOf(path: string, added: string[]) {
+  return parseUnifiedDiff([
+    `diff --git a/${path} b/${path}`,
+    `--- a/${path}`,
+    `+++ b/${path}`,
+    `@@ -0,0 +1,${added.length} @@`,
+    ...added.map(line => `+${line}`),
+  ].join('\n'));
+}
+
+const NO_MOMENT: ReviewRule = {
+  id: 'no-moment',
+  pattern: "from ['\"]moment['\"]",
+  type: 'best-practice',
+  severity: 'low',
+  message: 'moment is deprecated here',
+  suggestion: 'Use date-fns',
+};
+
+describe('RuleEngineService', () => {
+  const engine = new RuleEngineService();
+
+  it('reports built-in rule matches on added lines', () => {
+    const issues = engine.run(diffOf('src/app.ts', ['const a = 1;', 'console.log(a);', 'eval(input);']));
+
+    expect(issues.map(issue => [issue.ruleId, issue.line])).toEqual([
+      ['security/eval', 3],
+      ['best-practice/console-log', 2],
+    ]);
+  });
+
+  it('only runs rules on files of their languages', () => {
+    expect(engine.run(diffOf('notes.md', ['console.log(a);']))).toEqual([]);
+  });
+
+  it('skips disabled rules', () => {
+    const issues = engine.run(diffOf('src/app.ts', ['console.log(a);']), { disabledRules: ['best-practice/console-log'] });
+
+    expect(issues).toEqual([]);
+  });
+
+  it('runs custom rules and lets them replace built-in ones', () => {
+    const issues = engine.run(diffOf('src/app.ts', ["import moment from 'moment';", 'console.log(a);']), {
+      customRules: [NO_MOMENT, { ...NO_MOMENT, id: 'best-practice/console-log', pattern: 'never-matches' }],
+    });
+
+    expect(issues.map(issue => [issue.ruleId, issue.line])).toEqual([['no-moment', 1]]);
+  });
+
+  it('skips matches near a notWithin pattern', () => {
+    const rule: ReviewRule = { ...NO_MOMENT, id: 'todo', pattern: 'TODO', notWithin: { pattern: 'issue #\\d+', lines: 1 } };
+    const issues = engine.run(diffOf('a.ts', ['// TODO tidy up', '', '// TODO see issue #12']), { customRules: [rule] });
+
+    expect(issues.filter(issue => issue.ruleId === 'todo').map(issue => issue.line)).toEqual([1]);
+  });
+
+  it('matches multiline rules across consecutive added lines', () => {
+    const rule: ReviewRule = { ...NO_MOMENT, id: 'empty-if', pattern: 'if \\(.*\\) \\{\\n\\s*\\}', multiline: true };
+    const issues = engine.run(diffOf('a.ts', ['const x = 1;', 'if (x) {', '}']), { customRules: [rule] });
+
+    expect(issues.map(issue => issue.line)).toEqual([2]);
+  });
+
+  it('skips custom rules with patterns prone to catastrophic backtracking', () => {
+    const rule: ReviewRule = { ...NO_MOMENT, id: 'slow', pattern: '(a+)+$' };
+
+    expect(engine.run(diffOf('a.ts', ['a'.repeat(30) + '!']), { customRules: [rule] })).toEqual([]);
+  });
+});
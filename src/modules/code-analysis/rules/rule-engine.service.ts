@@ -0,0 +1,167 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { minimatch } from 'minimatch';
+import { DiffLine, ParsedDiff } from '../../../common/interfaces/diff.interface';
+import type { CodeIssue } from '../code-analysis.service';
+import { BUILTIN_RULES } from './builtin-rules';
+import { unsafePatternReason } from './rule-definition';
+import { LANGUAGE_EXTENSIONS, ReviewRule } from './rule.interface';
+
+// Longer lines, e.g. minified code, are only matched up to this length to
+// bound the time a pattern can take
+const MAX_LINE_LENGTH = 1000;
+
+interface CompiledRule {
+  rule: ReviewRule;
+  pattern: RegExp;
+  notWithin?: RegExp;
+}
+
+export interface RuleRunOptions {
+  /** Repository rules; a custom rule with a built-in id replaces it */
+  customRules?: ReviewRule[];
+  /** Rule ids to skip */
+  disabledRules?: string[];
+}
+
+@Injectable()
+export class RuleEngineService {
+  private readonly logger = new Logger(RuleEngineService.name);
+
+  run(diff: ParsedDiff, options: RuleRunOptions = {}): CodeIssue[] {
+    const rules = this.compileRules(options);
+    const issues: CodeIssue[] = [];
+
+    for (const file of diff.files) {
+      if (file.isBinary || file.status === 'deleted') continue;
+
+      const applicable = rules.filter(compiled => this.appliesTo(compiled.rule, file.path));
+      if (applicable.length === 0) continue;
+
+      for (const hunk of file.hunks) {
+        for (const compiled of applicable) {
+          const lines = compiled.rule.multiline
+            ? this.matchBlocks(compiled, hunk.lines)
+            : this.matchLines(compiled, hunk.lines);
+
+          for (const line of lines) {
+            issues.push({
+              type: compiled.rule.type,
+              severity: compiled.rule.severity,
+              message: compiled.rule.message,
+              filePath: file.path,
+              line: line.newLineNumber,
+              suggestion: compiled.rule.suggestion,
+              ruleId: compiled.rule.id,
+            });
+          }
+        }
+      }
+    }
+
+    return issues;
+  }
+
+  private compileRules(options: RuleRunOptions): CompiledRule[] {
+    const disabled = new Set(options.disabledRules ?? []);
+    const byId = new Map<string, ReviewRule>();
+
+    for (const rule of BUILTIN_RULES) {
+      byId.set(rule.id, rule);
+    }
+    for (const rule of options.customRules ?? []) {
+      const unsafe = unsafePatternReason(rule.pattern) ?? (rule.notWithin && unsafePatternReason(rule.notWithin.pattern));
+      if (unsafe) {
+        this.logger.warn(`Skipping rule ${rule.id}: pattern ${unsafe}`);
+        continue;
+      }
+      byId.set(rule.id, rule);
+    }
+
+    const compiled: CompiledRule[] = [];
+    for (const rule of byId.values()) {
+      if (disabled.has(rule.id)) continue;
+
+      try {
+        // Global/sticky flags would make RegExp.test stateful across lines
+        const flags = (rule.flags ?? '').replace(/[gy]/g, '');
+        compiled.push({
+          rule,
+          pattern: new RegExp(rule.pattern, rule.multiline ? `${flags.replace('m', '')}gm` : flags),
+          notWithin: rule.notWithin ? new RegExp(rule.notWithin.pattern) : undefined,
+        });
+      } catch (error) {
+        this.logger.warn(`Skipping rule ${rule.id}: ${error instanceof Error ? error.message : 'invalid pattern'}`);
+      }
+    }
+
+    return compiled;
+  }
+
+  private appliesTo(rule: ReviewRule, path: string): boolean {
+    if (rule.files && !rule.files.some(glob => minimatch(path, glob, { dot: true, matchBase: true }))) {
+      return false;
+    }
+
+    if (rule.languages) {
+      const extension = path.split('.').pop()?.toLowerCase() ?? '';
+      return rule.languages.some(language => (LANGUAGE_EXTENSIONS[language] ?? []).includes(extension));
+    }
+
+    return true;
+  }
+
+  private matchLines(compiled: CompiledRule, lines: DiffLine[]): DiffLine[] {
+    return lines.filter((line, index) =>
+      line.type === 'added' &&
+      compiled.pattern.test(line.content.substring(0, MAX_LINE_LENGTH)) &&
+      !this.isExcludedByContext(compiled, lines, index),
+    );
+  }
+
+  /**
+   * Matches multi-line rules against each run of consecutive added lines and
+   * reports the line each match starts on.
+   */
+  private matchBlocks(compiled: CompiledRule, lines: DiffLine[]): DiffLine[] {
+    const matched: DiffLine[] = [];
+    let start = 0;
+
+    while (start < lines.length) {
+      if (lines[start].type !== 'added') {
+        start++;
+        continue;
+      }
+
+      let end = start;
+      while (end < lines.length && lines[end].type === 'added') end++;
+
+      const block = lines.slice(start, end);
+      const text = block.map(line => line.content.substring(0, MAX_LINE_LENGTH)).join('\n');
+      compiled.pattern.lastIndex = 0;
+
+      for (const match of text.matchAll(compiled.pattern)) {
+        const offset = text.substring(0, match.index).split('\n').length - 1;
+        if (!this.isExcludedByContext(compiled, lines, start + offset)) {
+          matched.push(block[offset]);
+        }
+      }
+
+      start = end;
+    }
+
+    return matched;
+  }
+
+  private isExcludedByContext(compiled: CompiledRule, lines: DiffLine[], index: number): boolean {
+    if (!compiled.notWithin || !compiled.rule.notWithin) return false;
+
+    const range = compiled.rule.notWithin.lines;
+    const start = Math.max(0, index - range);
+    const end = Math.min(lines.length, index + range + 1);
+
+    // Ignore lines the change removed
+    return lines
+      .slice(start, end)
+      .some(line => line.type !== 'removed' && compiled.notWithin!.test(line.content.substring(0, MAX_LINE_LENGTH)));
+  }
+}
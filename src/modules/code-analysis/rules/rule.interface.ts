@@ -0,0 +1,42 @@
+import type { CodeIssue } from '../code-analysis.service';
+
+/**
+ * A declarative check run against the added lines of a diff. Built-in rules
+ * live in `builtin-rules.ts`; repositories add their own via `customRules`
+ * in `.lintelligence.yml`.
+ */
+export interface ReviewRule {
+  /** Stable identifier, recorded on each finding so it can be tuned or suppressed */
+  id: string;
+  /** Regular expression source matched against each added line */
+  pattern: string;
+  /** Regular expression flags, e.g. "i" */
+  flags?: string;
+  /** Match against each block of consecutive added lines instead of single lines */
+  multiline?: boolean;
+  /** Only run on files matching one of these globs */
+  files?: string[];
+  /** Only run on files of these languages, see `LANGUAGE_EXTENSIONS` */
+  languages?: string[];
+  /** Skip the match when this pattern appears within `lines` lines of it */
+  notWithin?: {
+    pattern: string;
+    lines: number;
+  };
+  type: CodeIssue['type'];
+  severity: CodeIssue['severity'];
+  message: string;
+  suggestion: string;
+}
+
+export const LANGUAGE_EXTENSIONS: Record<string, string[]> = {
+  typescript: ['ts', 'tsx', 'mts', 'cts'],
+  javascript: ['js', 'jsx', 'mjs', 'cjs'],
+  python: ['py'],
+  go: ['go'],
+  java: ['java'],
+  ruby: ['rb'],
+  php: ['php'],
+  csharp: ['cs'],
+  rust: ['rs'],
+};
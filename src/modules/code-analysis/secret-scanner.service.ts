@@ -0,0 +1,228 @@
+import { Injectable } from '@nestjs/common';
+import { DiffFile, ParsedDiff } from '../../common/interfaces/diff.interface';
+import type { CodeIssue } from './code-analysis.service';
+
+interface SecretPattern {
+  id: string;
+  label: string;
+  pattern: RegExp;
+  /** Capture group holding the secret itself; the whole match when unset */
+  group?: number;
+}
+
+interface SecretMatch {
+  id: string;
+  label: string;
+  start: number;
+  end: number;
+}
+
+const SECRET_PATTERNS: SecretPattern[] = [
+  {
+    id: 'secrets/aws-access-key',
+    label: 'AWS access key',
+    pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g,
+  },
+  {
+    id: 'secrets/aws-secret-key',
+    label: 'AWS secret access key',
+    pattern: /aws_?secret_?(?:access_?)?key['"]?\s*[:=]\s*['"]?([A-Za-z0-9/+=]{40})\b/gi,
+    group: 1,
+  },
+  {
+    id: 'secrets/private-key',
+    label: 'private key',
+    pattern: /-----BEGIN (?:RSA |EC |DSA |OPENSSH |ENCRYPTED |PGP )?PRIVATE KEY(?: BLOCK)?-----/g,
+  },
+  {
+    id: 'secrets/github-token',
+    label: 'GitHub token',
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\b/g,
+  },
+  {
+    id: 'secrets/slack-token',
+    label: 'Slack token',
+    pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g,
+  },
+  {
+    id: 'secrets/slack-webhook',
+    label: 'Slack webhook URL',
+    pattern: /https:\/\/hooks\.slack\.com\/services\/T[A-Za-z0-9]+\/B[A-Za-z0-9]+\/[A-Za-z0-9]+/g,
+  },
+  {
+    id: 'secrets/jwt',
+    label: 'JSON Web Token',
+    pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g,
+  },
+  {
+    id: 'secrets/connection-string',
+    label: 'connection string password',
+    pattern: /\b[a-z][a-z0-9+.-]*:\/\/[^\s:/@'"`]+:([^\s@'"`]+)@[^\s'"`]+/gi,
+    group: 1,
+  },
+];
+
+// Quoted literals long enough to be a generated credential
+const QUOTED_STRING = /(['"`])([A-Za-z0-9+/=_\-.]{20,})\1/g;
+const ENTROPY_THRESHOLD = 4.0;
+const HEX_ENTROPY_THRESHOLD = 3.0;
+
+// Lock files and similar are full of integrity hashes
+const IGNORED_FILES = [/(^|\/)(package-lock\.json|yarn\.lock|pnpm-lock\.yaml|Cargo\.lock|go\.sum|poetry\.lock)$/];
+
+// Values that are obviously not real credentials
+const PLACEHOLDER = /^(?:\$\{.*\}|\$[A-Z_]+|<.*>|\*+|x+|password|secret|changeme|example|your[_-].*|.*_here)$/i;
+
+/**
+ * Detects credentials in added diff lines. Findings and any text derived
+ * from the diff only ever contain the redacted form of a secret.
+ */
+@Injectable()
+export class SecretScannerService {
+  scan(diff: ParsedDiff, disabledRules: string[] = []): CodeIssue[] {
+    const disabled = new Set(disabledRules);
+    const issues: CodeIssue[] = [];
+
+    for (const file of this.scannableFiles(diff)) {
+      for (const hunk of file.hunks) {
+        for (const line of hunk.lines) {
+          if (line.type !== 'added') continue;
+
+          for (const match of this.findSecrets(line.content)) {
+            if (disabled.has(match.id)) continue;
+
+            const redacted = this.redactValue(line.content.substring(match.start, match.end));
+            issues.push({
+              type: 'security',
+              severity: 'critical',
+              message: `Possible ${match.label} committed: \`${redacted}\``,
+              filePath: file.path,
+              line: line.newLineNumber,
+              suggestion: 'Remove the secret from the code, rotate it immediately, and load it from a secret manager or environment configuration instead',
+              ruleId: match.id,
+            });
+          }
+        }
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Returns a copy of the diff with every detected secret redacted,
+   * including the body of private key blocks. The raw text is dropped
+   * rather than redacted.
+   */
+  redactDiff(diff: ParsedDiff): ParsedDiff {
+    return {
+      raw: '',
+      files: diff.files.map(file => ({
+        ...file,
+        hunks: file.hunks.map(hunk => {
+          let inPrivateKey = false;
+
+          return {
+            ...hunk,
+            lines: hunk.lines.map(line => {
+              if (/-----BEGIN [A-Z ]*PRIVATE KEY/.test(line.content)) {
+                inPrivateKey = true;
+              } else if (inPrivateKey) {
+                inPrivateKey = !/-----END [A-Z ]*PRIVATE KEY/.test(line.content);
+                if (inPrivateKey) return { ...line, content: '[REDACTED]' };
+              }
+
+              return { ...line, content: this.redactText(line.content) };
+            }),
+          };
+        }),
+      })),
+    };
+  }
+
+  redactText(text: string): string {
+    const matches = this.findSecrets(text);
+    let result = text;
+
+    // Replace from the end so earlier offsets stay valid
+    for (const match of [...matches].sort((a, b) => b.start - a.start)) {
+      result = result.substring(0, match.start) + this.redactValue(text.substring(match.start, match.end)) + result.substring(match.end);
+    }
+
+    return result;
+  }
+
+  private scannableFiles(diff: ParsedDiff): DiffFile[] {
+    return diff.files.filter(file =>
+      !file.isBinary &&
+      file.status !== 'deleted' &&
+      !IGNORED_FILES.some(pattern => pattern.test(file.path)),
+    );
+  }
+
+  private findSecrets(text: string): SecretMatch[] {
+    const matches: SecretMatch[] = [];
+    const overlaps = (start: number, end: number) => matches.some(m => start < m.end && end > m.start);
+
+    for (const { id, label, pattern, group } of SECRET_PATTERNS) {
+      for (const match of text.matchAll(pattern)) {
+        const value = group ? match[group] : match[0];
+        if (!value || PLACEHOLDER.test(value)) continue;
+
+        const start = (match.index ?? 0) + match[0].indexOf(value);
+        const end = start + value.length;
+        if (!overlaps(start, end)) matches.push({ id, label, start, end });
+      }
+    }
+
+    for (const match of text.matchAll(QUOTED_STRING)) {
+      const value = match[2];
+      const start = (match.index ?? 0) + 1;
+      const end = start + value.length;
+
+      if (!overlaps(start, end) && !PLACEHOLDER.test(value) && this.isHighEntropy(value)) {
+        matches.push({ id: 'secrets/high-entropy-string', label: 'high-entropy secret', start, end });
+      }
+    }
+
+    return matches;
+  }
+
+  private isHighEntropy(value: string): boolean {
+    // Identifiers, paths and dotted names are long but not random
+    if (/^[a-z_.\-/]+$/i.test(value) || (value.includes('/') && !/[+=]/.test(value))) return false;
+
+    const hasDigit = /\d/.test(value);
+    const hasLetter = /[a-z]/i.test(value);
+    if (!hasDigit || !hasLetter) return false;
+
+    if (/^[0-9a-f]+$/i.test(value)) {
+      return value.length >= 32 && this.entropy(value) >= HEX_ENTROPY_THRESHOLD;
+    }
+
+    return this.entropy(value) >= ENTROPY_THRESHOLD;
+  }
+
+  /** Shannon entropy in bits per character */
+  private entropy(value: string): number {
+    const counts = new Map<string, number>();
+    for (const char of value) counts.set(char, (counts.get(char) ?? 0) + 1);
+
+    let entropy = 0;
+    for (const count of counts.values()) {
+      const p = count / value.length;
+      entropy -= p * Math.log2(p);
+    }
+
+    return entropy;
+  }
+
+  private redactValue(value: string): string {
+    // Key block headers carry no secret material
+    if (value.startsWith('-----')) return value;
+
+    // Keep a short prefix so reviewers can tell which credential it was
+    const visible = Math.min(4, Math.floor(value.length / 4));
+    return `${value.substring(0, visible)}…[REDACTED]`;
+  }
+}
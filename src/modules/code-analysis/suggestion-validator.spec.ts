@@ -0,0 +1,41 @@
+import { DiffFile } from '../../common/interfaces/diff.interface';
+import { resolveReplacement } from './suggestion-validator';
+
+// Lines 1-20 of the file; the diff's hunk covers lines 3-12
+const CONTENT = Array.from({ length: 20 }, (_, index) => `line${index + 1}();`).join('\n');
+const FILE: DiffFile = {
+  oldPath: 'a.ts',
+  newPath: 'a.ts',
+  path: 'a.ts',
+  status: 'modified',
+  isBinary: false,
+  hunks: [{ header: '@@ -3,10 +3,10 @@', oldStart: 3, oldLines: 10, newStart: 3, newLines: 10, lines: [] }],
+};
+
+describe('resolveReplacement', () => {
+  it('accepts code that matches the file at the given lines', () => {
+    const resolved = resolveReplacement({ startLine: 5, endLine: 6, original: 'line5();\nline6();', code: 'fixed();' }, CONTENT, FILE);
+
+    expect(resolved).toEqual({ startLine: 5, endLine: 6, code: 'fixed();' });
+  });
+
+  it('relocates code found once near the finding', () => {
+    const resolved = resolveReplacement({ startLine: 5, endLine: 5, original: 'line7();', code: 'fixed();' }, CONTENT, FILE, 6);
+
+    expect(resolved).toEqual({ startLine: 7, endLine: 7, code: 'fixed();' });
+  });
+
+  it('does not relocate code far from the finding', () => {
+    const content = CONTENT.replace('line11();', 'line7();');
+
+    expect(resolveReplacement({ startLine: 4, endLine: 4, original: 'line11();', code: 'x();' }, CONTENT, FILE, 4)).toBeUndefined();
+    // The same code at line 7 is in range, but also found again at line 11
+    expect(resolveReplacement({ startLine: 9, endLine: 9, original: 'line7();', code: 'x();' }, content, FILE, 9)).toBeUndefined();
+  });
+
+  it('rejects replacements without original code, without changes or outside the hunk', () => {
+    expect(resolveReplacement({ startLine: 5, endLine: 5, code: 'x();' }, CONTENT, FILE)).toBeUndefined();
+    expect(resolveReplacement({ startLine: 5, endLine: 5, original: 'line5();', code: 'line5();  ' }, CONTENT, FILE)).toBeUndefined();
+    expect(resolveReplacement({ startLine: 15, endLine: 15, original: 'line15();', code: 'x();' }, CONTENT, FILE)).toBeUndefined();
+  });
+});
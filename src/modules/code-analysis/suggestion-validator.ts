@@ -0,0 +1,56 @@
+import { DiffFile } from '../../common/interfaces/diff.interface';
+import type { SuggestedReplacement } from './code-analysis.service';
+
+// Larger rewrites are better described than applied blindly
+const MAX_REPLACEMENT_LINES = 20;
+// How far the code may be from the finding's line and still be relocated
+const RELOCATE_DISTANCE = 3;
+
+/**
+ * Checks a model-proposed replacement against the post-change file content.
+ * The `original` code must match the file at the given lines, or at exactly
+ * one other place within a few lines of `findingLine`, and the range must
+ * lie within one hunk so GitHub can attach a suggestion to it. Returns the
+ * validated replacement, or undefined when it is invalid or ambiguous.
+ */
+export function resolveReplacement(
+  replacement: SuggestedReplacement,
+  content: string,
+  file: DiffFile,
+  findingLine: number = replacement.startLine,
+): SuggestedReplacement | undefined {
+  if (replacement.original === undefined) return undefined;
+
+  const fileLines = content.split('\n').map(normalize);
+  const originalLines = replacement.original.replace(/\n$/, '').split('\n').map(normalize);
+  if (originalLines.length > MAX_REPLACEMENT_LINES) return undefined;
+
+  const matchesAt = (start: number) =>
+    originalLines.every((line, offset) => fileLines[start - 1 + offset] === line);
+
+  let startLine = replacement.startLine;
+  if (!matchesAt(startLine)) {
+    // Models are often a line or two off; accept the code if it is unique
+    // near the finding, not wherever else the same code appears
+    const candidates = fileLines
+      .map((_, index) => index + 1)
+      .filter(line => Math.abs(line - findingLine) <= RELOCATE_DISTANCE && matchesAt(line));
+    if (candidates.length !== 1) return undefined;
+    startLine = candidates[0];
+  }
+
+  const endLine = startLine + originalLines.length - 1;
+  const code = replacement.code.replace(/\n$/, '');
+  if (code.split('\n').map(normalize).join('\n') === originalLines.join('\n')) return undefined;
+
+  const inOneHunk = file.hunks.some(hunk =>
+    startLine >= hunk.newStart && endLine < hunk.newStart + hunk.newLines,
+  );
+  if (!inOneHunk) return undefined;
+
+  return { startLine, endLine, code };
+}
+
+function normalize(line: string): string {
+  return line.replace(/\r$/, '').trimEnd();
+}
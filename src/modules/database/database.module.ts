@@ -1,10 +1,10 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
-import { Review, ReviewComment } from '../../entities';
+import { Review, ReviewComment, RuleSuppression, WebhookDelivery } from '../../entities';
 import { DatabaseService } from './database.service';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Review, ReviewComment])],
+  imports: [TypeOrmModule.forFeature([Review, ReviewComment, WebhookDelivery, RuleSuppression])],
   providers: [DatabaseService],
   exports: [DatabaseService, TypeOrmModule],
 })
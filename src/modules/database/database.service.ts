@@ -1,8 +1,29 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { Review, ReviewComment } from '../../entities';
+import { FindOptionsWhere, In, IsNull, QueryFailedError, Repository } from 'typeorm';
+import { Review, ReviewComment, RuleSuppression, WebhookDelivery } from '../../entities';
 import { CodeIssue } from '../code-analysis/code-analysis.service';
+import { ScmProviderName } from '../scm/scm-provider.interface';
+
+export interface ReviewQuery {
+  provider?: ScmProviderName;
+  owner?: string;
+  repo?: string;
+  pullNumber?: number;
+  status?: string;
+  /** Reviews created at or after this time */
+  since?: Date;
+  /** Reviews created before this time */
+  until?: Date;
+  skip: number;
+  take: number;
+}
+
+export interface FindingQuery {
+  severity?: CodeIssue['severity'];
+  type?: CodeIssue['type'];
+  status?: string;
+}
 
 @Injectable()
 export class DatabaseService {
@@ -13,6 +34,10 @@ export class DatabaseService {
     private reviewRepository: Repository<Review>,
     @InjectRepository(ReviewComment)
     private commentRepository: Repository<ReviewComment>,
+    @InjectRepository(WebhookDelivery)
+    private deliveryRepository: Repository<WebhookDelivery>,
+    @InjectRepository(RuleSuppression)
+    private suppressionRepository: Repository<RuleSuppression>,
   ) {}
 
   async createReview(data: {
@@ -21,29 +46,243 @@ export class DatabaseService {
     pullNumber: number;
     commitSha: string;
     summary: string;
+    installationId?: number;
+    provider?: ScmProviderName;
+    dryRun?: boolean;
+    paths?: string[];
   }): Promise<Review> {
     const review = this.reviewRepository.create(data);
     return await this.reviewRepository.save(review);
   }
 
+  /**
+   * Prepares a failed review for another attempt of its job. Findings the
+   * failed attempt posted are kept so the retry does not post them again.
+   */
+  async resumeReview(id: string): Promise<Review | null> {
+    const review = await this.reviewRepository.findOne({ where: { id } });
+    if (!review) {
+      return null;
+    }
+
+    await this.commentRepository.delete({ reviewId: id, posted: false });
+    await this.reviewRepository.update(id, { status: 'pending', summary: 'Processing...' });
+
+    return review;
+  }
+
   async updateReviewStatus(id: string, status: string): Promise<void> {
     await this.reviewRepository.update(id, { status });
   }
 
-  async addReviewComments(reviewId: string, issues: CodeIssue[]): Promise<void> {
+  async completeReview(id: string, summary: string, metadata?: Record<string, any>): Promise<void> {
+    await this.reviewRepository.update(id, { status: 'completed', summary, metadata });
+  }
+
+  async getLastCompletedReview(
+    owner: string,
+    repo: string,
+    pullNumber: number,
+    provider: ScmProviderName = 'github',
+  ): Promise<Review | null> {
+    return await this.reviewRepository.findOne({
+      // Path-limited reviews did not cover the whole pull request
+      where: { provider, owner, repo, pullNumber, status: 'completed', dryRun: false, paths: IsNull() },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  async addReviewComments(reviewId: string, issues: CodeIssue[]): Promise<ReviewComment[]> {
     const comments = issues.map(issue =>
       this.commentRepository.create({
         reviewId,
-        filePath: 'unknown', // This would need to be parsed from the diff
-        lineNumber: issue.line ? parseInt(issue.line) : undefined,
+        filePath: issue.filePath ?? 'unknown', // Summary-level findings have no file
+        lineNumber: issue.line,
         issueType: issue.type,
         severity: issue.severity,
         message: issue.message,
         suggestion: issue.suggestion,
+        ruleId: issue.ruleId,
+        fingerprint: issue.fingerprint,
+        contextHash: issue.contextHash,
       })
     );
 
-    await this.commentRepository.save(comments);
+    return await this.commentRepository.save(comments);
+  }
+
+  async markFindingsPosted(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.commentRepository.update({ id: In(ids) }, { posted: true });
+  }
+
+  async setGithubCommentIds(commentIds: Map<string, number>): Promise<void> {
+    for (const [id, githubCommentId] of commentIds) {
+      await this.commentRepository.update(id, { githubCommentId });
+    }
+  }
+
+  /**
+   * Open or outdated findings posted to GitHub by reviews since `since`,
+   * with their review, for syncing their thread state
+   */
+  async getSyncableFindings(since: Date): Promise<ReviewComment[]> {
+    return await this.commentRepository
+      .createQueryBuilder('comment')
+      .innerJoinAndSelect('comment.review', 'review')
+      .where('comment.status IN (:...statuses)', { statuses: ['open', 'outdated'] })
+      .andWhere('comment.githubCommentId IS NOT NULL')
+      .andWhere('review.createdAt >= :since', { since })
+      .getMany();
+  }
+
+  async updateFindingStatus(id: string, status: string): Promise<void> {
+    await this.commentRepository.update(id, { status });
+  }
+
+  async getFindingStats(): Promise<any> {
+    const rows: Array<{ status: string; count: string }> = await this.commentRepository
+      .createQueryBuilder('comment')
+      .select('comment.status', 'status')
+      .addSelect('COUNT(*)', 'count')
+      .where('comment.githubCommentId IS NOT NULL')
+      .groupBy('comment.status')
+      .getRawMany();
+    const byStatus: Record<string, number> = { open: 0, resolved: 0, outdated: 0, dismissed: 0 };
+    for (const row of rows) byStatus[row.status] = parseInt(row.count, 10);
+
+    const disputed = await this.commentRepository.count({ where: { disputed: true } });
+    // Resolved threads were acted on; dismissed ones and concessions were noise
+    const judged = byStatus.resolved + byStatus.dismissed + disputed;
+
+    return {
+      ...byStatus,
+      disputed,
+      precision: judged > 0 ? (byStatus.resolved / judged) * 100 : 0,
+    };
+  }
+
+  async getReviewComment(id: string): Promise<ReviewComment | null> {
+    return await this.commentRepository.findOne({ where: { id } });
+  }
+
+  async markFindingDisputed(id: string): Promise<void> {
+    await this.commentRepository.update(id, { disputed: true });
+  }
+
+  /**
+   * Findings posted by earlier reviews of the same pull request, used to
+   * avoid re-posting them on later pushes and retries. Findings that were
+   * stored but never posted, e.g. below the severity threshold at the time,
+   * on lines that could not take a comment, from dry runs or from an attempt
+   * that failed before posting, were never reported.
+   */
+  async getPreviousFindings(
+    owner: string,
+    repo: string,
+    pullNumber: number,
+    provider: ScmProviderName = 'github',
+  ): Promise<ReviewComment[]> {
+    return await this.commentRepository
+      .createQueryBuilder('comment')
+      .innerJoin('comment.review', 'review')
+      .where('review.provider = :provider AND review.owner = :owner AND review.repo = :repo AND review.pullNumber = :pullNumber', {
+        provider,
+        owner,
+        repo,
+        pullNumber,
+      })
+      .andWhere('comment.posted = true')
+      .getMany();
+  }
+
+  /**
+   * Records a webhook delivery. Returns false if it was recorded before,
+   * i.e. GitHub redelivered the event.
+   */
+  async recordDelivery(id: string, event?: string): Promise<boolean> {
+    try {
+      await this.deliveryRepository.insert({ id, event });
+      return true;
+    } catch (error) {
+      // Unique violation on the delivery id
+      if (error instanceof QueryFailedError && (error as QueryFailedError & { code?: string }).code === '23505') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /** Forgets a delivery whose processing failed so a redelivery is handled */
+  async removeDelivery(id: string): Promise<void> {
+    await this.deliveryRepository.delete(id);
+  }
+
+  async addRuleSuppression(
+    owner: string,
+    repo: string,
+    ruleId: string,
+    createdBy: string,
+    provider: ScmProviderName = 'github',
+  ): Promise<void> {
+    await this.suppressionRepository
+      .createQueryBuilder()
+      .insert()
+      .values({ provider, owner, repo, ruleId, createdBy })
+      .orIgnore()
+      .execute();
+  }
+
+  async getSuppressedRules(owner: string, repo: string, provider: ScmProviderName = 'github'): Promise<string[]> {
+    const suppressions = await this.suppressionRepository.find({ where: { provider, owner, repo } });
+    return suppressions.map(suppression => suppression.ruleId);
+  }
+
+  async getReview(id: string): Promise<Review | null> {
+    return await this.reviewRepository.findOne({
+      where: { id },
+      relations: ['comments'],
+    });
+  }
+
+  /** A page of reviews, newest first, and the number of matching reviews */
+  async findReviews(query: ReviewQuery): Promise<[Review[], number]> {
+    const builder = this.reviewRepository
+      .createQueryBuilder('review')
+      .orderBy('review.createdAt', 'DESC')
+      .skip(query.skip)
+      .take(query.take);
+
+    for (const key of ['provider', 'owner', 'repo', 'pullNumber', 'status'] as const) {
+      if (query[key] !== undefined) {
+        builder.andWhere(`review.${key} = :${key}`, { [key]: query[key] });
+      }
+    }
+    if (query.since) {
+      builder.andWhere('review.createdAt >= :since', { since: query.since });
+    }
+    if (query.until) {
+      builder.andWhere('review.createdAt < :until', { until: query.until });
+    }
+
+    return await builder.getManyAndCount();
+  }
+
+  async reviewExists(id: string): Promise<boolean> {
+    return (await this.reviewRepository.count({ where: { id } })) > 0;
+  }
+
+  /** A review's findings in file and line order */
+  async getReviewFindings(reviewId: string, query: FindingQuery = {}): Promise<ReviewComment[]> {
+    const where: FindOptionsWhere<ReviewComment> = { reviewId };
+    if (query.severity) where.severity = query.severity;
+    if (query.type) where.issueType = query.type;
+    if (query.status) where.status = query.status;
+
+    return await this.commentRepository.find({
+      where,
+      order: { filePath: 'ASC', lineNumber: 'ASC', createdAt: 'ASC' },
+    });
   }
 
   async getReviewByPullRequest(
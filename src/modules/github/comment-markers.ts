@@ -0,0 +1,30 @@
+/**
+ * Hidden HTML comments that let the bot recognise its own comments on
+ * GitHub, whichever account it posts them with.
+ */
+
+const FINDING_MARKER = /<!-- lintelligence:finding:([0-9a-f-]{36}) -->/;
+
+/** Marks replies the bot posts on review threads, so it never answers itself */
+export const REPLY_MARKER = '<!-- lintelligence:reply -->';
+
+/** Identifies the summary comment, which is edited in place on every review */
+export const SUMMARY_MARKER = '<!-- lintelligence:summary -->';
+
+/** Links a posted review comment to its stored `ReviewComment` */
+export function findingMarker(findingId: string): string {
+  return `<!-- lintelligence:finding:${findingId} -->`;
+}
+
+/** The `ReviewComment` id a review comment was posted for, if it is the bot's */
+export function parseFindingMarker(body: string): string | undefined {
+  return body.match(FINDING_MARKER)?.[1];
+}
+
+export function isBotComment(body: string): boolean {
+  return body.includes(REPLY_MARKER) || body.includes(SUMMARY_MARKER) || FINDING_MARKER.test(body);
+}
+
+export function stripMarkers(body: string): string {
+  return body.replace(/<!-- lintelligence:[^>]*-->/g, '').trim();
+}
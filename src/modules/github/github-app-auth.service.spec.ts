@@ -0,0 +1,96 @@
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { GithubAppAuthService } from './github-app-auth.service';
+import { AppConfig } from '../../common/interfaces/config.interface';
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const PRIVATE_KEY = privateKey.export({ type: 'pkcs1', format: 'pem' }).toString();
+
+function createService(github: Record<string, unknown> = { appId: '1234', privateKey: PRIVATE_KEY }) {
+  const config = { get: () => github };
+  return new GithubAppAuthService(config as unknown as ConfigService<AppConfig, true>);
+}
+
+function decode(part: string) {
+  return JSON.parse(Buffer.from(part, 'base64url').toString());
+}
+
+describe('GithubAppAuthService', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  describe('createAppJwt', () => {
+    const now = Date.UTC(2024, 0, 1);
+
+    it('signs a backdated JWT valid for at most ten minutes', () => {
+      const [header, payload, signature] = createService().createAppJwt(now).split('.');
+      const claims = decode(payload);
+
+      expect(decode(header)).toEqual({ alg: 'RS256', typ: 'JWT' });
+      expect(claims.iss).toBe('1234');
+      expect(claims.iat).toBe(now / 1000 - 60);
+      expect(claims.exp).toBeGreaterThan(now / 1000);
+      expect(claims.exp - claims.iat).toBeLessThanOrEqual(10 * 60);
+      expect(crypto.verify('RSA-SHA256', Buffer.from(`${header}.${payload}`), publicKey, Buffer.from(signature, 'base64url'))).toBe(true);
+    });
+
+    it('accepts a private key with escaped newlines', () => {
+      const service = createService({ appId: '1234', privateKey: PRIVATE_KEY.replace(/\n/g, '\\n') });
+
+      expect(service.createAppJwt(now).split('.')).toHaveLength(3);
+    });
+
+    it('throws when the app is not configured', () => {
+      const service = createService({ appId: '1234' });
+
+      expect(service.isConfigured()).toBe(false);
+      expect(() => service.createAppJwt(now)).toThrow('GITHUB_APP_ID and GITHUB_PRIVATE_KEY must be set');
+    });
+  });
+
+  describe('getInstallationToken', () => {
+    const start = Date.UTC(2024, 0, 1);
+    const hour = 60 * 60 * 1000;
+
+    function mockTokens(service: GithubAppAuthService) {
+      let issued = 0;
+      return jest
+        .spyOn(service as any, 'requestInstallationToken')
+        .mockImplementation(async () => ({ token: `token-${++issued}`, expiresAt: Date.now() + hour }));
+    }
+
+    it('caches tokens per installation until shortly before they expire', async () => {
+      const service = createService();
+      const request = mockTokens(service);
+      const clock = jest.spyOn(Date, 'now').mockReturnValue(start);
+
+      expect(await service.getInstallationToken(1)).toBe('token-1');
+      clock.mockReturnValue(start + 50 * 60 * 1000);
+      expect(await service.getInstallationToken(1)).toBe('token-1');
+      expect(await service.getInstallationToken(2)).toBe('token-2');
+
+      // Within five minutes of expiry
+      clock.mockReturnValue(start + 56 * 60 * 1000);
+      expect(await service.getInstallationToken(1)).toBe('token-3');
+      expect(request).toHaveBeenCalledTimes(3);
+    });
+
+    it('shares one token request between concurrent callers', async () => {
+      const service = createService();
+      const request = mockTokens(service);
+
+      const tokens = await Promise.all([service.getInstallationToken(1), service.getInstallationToken(1)]);
+
+      expect(tokens).toEqual(['token-1', 'token-1']);
+      expect(request).toHaveBeenCalledTimes(1);
+    });
+
+    it('requests a new token after a failed request', async () => {
+      const service = createService();
+      const request = mockTokens(service);
+      request.mockRejectedValueOnce(new Error('Failed to authenticate GitHub App installation'));
+
+      await expect(service.getInstallationToken(1)).rejects.toThrow('Failed to authenticate');
+      expect(await service.getInstallationToken(1)).toBe('token-1');
+    });
+  });
+});
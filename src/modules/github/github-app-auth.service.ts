@@ -0,0 +1,117 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Octokit } from '@octokit/rest';
+import * as crypto from 'crypto';
+import { AppConfig } from '../../common/interfaces/config.interface';
+
+interface InstallationToken {
+  token: string;
+  expiresAt: number;
+}
+
+// GitHub rejects app JWTs valid for more than 10 minutes
+const JWT_LIFETIME_SECONDS = 9 * 60;
+// Allow for clock drift between this host and GitHub
+const JWT_BACKDATE_SECONDS = 60;
+// Refresh installation tokens this long before they expire
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+/**
+ * Authenticates as a GitHub App: signs app JWTs and exchanges them for
+ * installation access tokens, which are cached per installation until
+ * shortly before they expire.
+ */
+@Injectable()
+export class GithubAppAuthService {
+  private readonly logger = new Logger(GithubAppAuthService.name);
+  private readonly tokens = new Map<number, InstallationToken>();
+  private readonly pending = new Map<number, Promise<InstallationToken>>();
+
+  constructor(private readonly configService: ConfigService<AppConfig, true>) {}
+
+  isConfigured(): boolean {
+    const { appId, privateKey } = this.configService.get('github', { infer: true });
+    return Boolean(appId && privateKey);
+  }
+
+  createAppJwt(now = Date.now()): string {
+    const { appId, privateKey } = this.configService.get('github', { infer: true });
+    if (!appId || !privateKey) {
+      throw new Error('GITHUB_APP_ID and GITHUB_PRIVATE_KEY must be set to authenticate as a GitHub App');
+    }
+
+    const issuedAt = Math.floor(now / 1000) - JWT_BACKDATE_SECONDS;
+    const header = base64Url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }));
+    const payload = base64Url(JSON.stringify({
+      iat: issuedAt,
+      exp: issuedAt + JWT_BACKDATE_SECONDS + JWT_LIFETIME_SECONDS,
+      iss: appId,
+    }));
+
+    const signature = crypto
+      .createSign('RSA-SHA256')
+      .update(`${header}.${payload}`)
+      .sign(normalizePrivateKey(privateKey));
+
+    return `${header}.${payload}.${base64Url(signature)}`;
+  }
+
+  async getInstallationToken(installationId: number): Promise<string> {
+    const cached = this.tokens.get(installationId);
+    if (cached && cached.expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now()) {
+      return cached.token;
+    }
+
+    // Concurrent jobs for one installation share a single token request
+    let request = this.pending.get(installationId);
+    if (!request) {
+      request = this.requestInstallationToken(installationId).finally(() => this.pending.delete(installationId));
+      this.pending.set(installationId, request);
+    }
+
+    const token = await request;
+    this.tokens.set(installationId, token);
+    return token.token;
+  }
+
+  /** Id of the app's installation on the repository */
+  async getRepositoryInstallationId(owner: string, repo: string): Promise<number> {
+    try {
+      const appClient = new Octokit({ auth: this.createAppJwt() });
+      const response = await appClient.apps.getRepoInstallation({ owner, repo });
+
+      return response.data.id;
+    } catch (error) {
+      this.logger.error(`Failed to get installation for ${owner}/${repo}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error('Failed to find GitHub App installation');
+    }
+  }
+
+  private async requestInstallationToken(installationId: number): Promise<InstallationToken> {
+    try {
+      const appClient = new Octokit({ auth: this.createAppJwt() });
+      const response = await appClient.apps.createInstallationAccessToken({
+        installation_id: installationId,
+      });
+
+      this.logger.log(`Obtained access token for installation ${installationId}`);
+
+      return {
+        token: response.data.token,
+        expiresAt: new Date(response.data.expires_at).getTime(),
+      };
+    } catch (error) {
+      this.logger.error(`Failed to get token for installation ${installationId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error('Failed to authenticate GitHub App installation');
+    }
+  }
+}
+
+function base64Url(value: string | Buffer): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+/** Keys stored in a single-line environment variable have escaped newlines */
+function normalizePrivateKey(key: string): string {
+  return key.includes('\\n') ? key.replace(/\\n/g, '\n') : key;
+}
@@ -0,0 +1,114 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { GithubAppAuthService } from './github-app-auth.service';
+import { GithubService, RepoRef } from './github.service';
+import { ReviewPublisherService } from './review-publisher.service';
+import {
+  PublishedReview,
+  ReviewFinding,
+  ReviewToPublish,
+  ScmProvider,
+  ScmPullRequest,
+  ScmStatus,
+} from '../scm/scm-provider.interface';
+import { SummaryReport } from '../scm/summary-comment';
+import { toSarif } from '../sarif/sarif-builder';
+import { AppConfig } from '../../common/interfaces/config.interface';
+import { ParsedDiff } from '../../common/interfaces/diff.interface';
+
+// Code scanning replaces earlier uploads of the same category on a ref
+const CODE_SCANNING_CATEGORY = 'lintelligence';
+
+/**
+ * GitHub as a source-control provider: reviews are posted through the
+ * review publisher and the status is a check run with annotations.
+ */
+@Injectable()
+export class GithubScmProvider implements ScmProvider {
+  readonly name = 'github' as const;
+
+  constructor(
+    private readonly githubService: GithubService,
+    private readonly reviewPublisher: ReviewPublisherService,
+    private readonly appAuthService: GithubAppAuthService,
+    private readonly configService: ConfigService<AppConfig, true>,
+  ) {}
+
+  /** Looks up the App installation when it is not known, e.g. for API-triggered reviews */
+  async getPullRequest(repository: RepoRef, pullNumber: number): Promise<ScmPullRequest> {
+    const installationId = repository.installationId ?? (this.appAuthService.isConfigured()
+      ? await this.appAuthService.getRepositoryInstallationId(repository.owner, repository.repo)
+      : undefined);
+    const pullRequest = await this.githubService.getPullRequest({ ...repository, installationId }, pullNumber);
+
+    return {
+      headSha: pullRequest.headSha,
+      baseRef: pullRequest.baseSha,
+      open: pullRequest.state === 'open',
+      installationId,
+    };
+  }
+
+  getDiff(repository: RepoRef, pullNumber: number): Promise<ParsedDiff> {
+    return this.githubService.getPullRequestDiff(repository, pullNumber);
+  }
+
+  getCompareDiff(repository: RepoRef, baseSha: string, headSha: string): Promise<ParsedDiff> {
+    return this.githubService.getCompareDiff(repository, baseSha, headSha);
+  }
+
+  isAncestor(repository: RepoRef, ancestorSha: string, headSha: string): Promise<boolean> {
+    return this.githubService.isAncestor(repository, ancestorSha, headSha);
+  }
+
+  getMergeBase(repository: RepoRef, baseRef: string, headSha: string): Promise<string | null> {
+    return this.githubService.getMergeBase(repository, baseRef, headSha);
+  }
+
+  getFileContent(repository: RepoRef, path: string, ref: string): Promise<string | null> {
+    return this.githubService.getFileContent(repository, path, ref);
+  }
+
+  postInlineComments(repository: RepoRef, pullNumber: number, review: ReviewToPublish): Promise<PublishedReview> {
+    return this.reviewPublisher.publish(repository, pullNumber, review);
+  }
+
+  postSummary(repository: RepoRef, pullNumber: number, report: SummaryReport): Promise<void> {
+    return this.reviewPublisher.publishSummary(repository, pullNumber, report);
+  }
+
+  postComment(repository: RepoRef, pullNumber: number, body: string): Promise<void> {
+    return this.githubService.postIssueComment(repository, pullNumber, body);
+  }
+
+  /** Creates the check run when queued; later states update the latest one */
+  async setStatus(repository: RepoRef, sha: string, status: ScmStatus): Promise<void> {
+    if (status.state === 'queued') {
+      await this.githubService.createCheckRun(repository, sha);
+      return;
+    }
+
+    // Without an earlier check run (e.g. creating it failed) there is nothing to update
+    const checkRunId = await this.githubService.findCheckRun(repository, sha);
+    if (checkRunId === undefined) return;
+
+    if (status.state === 'in_progress') {
+      await this.githubService.startCheckRun(repository, checkRunId);
+    } else {
+      await this.githubService.completeCheckRun(repository, checkRunId, status);
+    }
+  }
+
+  /** Uploads the findings to code scanning when `GITHUB_CODE_SCANNING_UPLOAD` is set */
+  async uploadFindings(repository: RepoRef, pullNumber: number, commitSha: string, findings: ReviewFinding[]): Promise<void> {
+    if (!this.configService.get('github', { infer: true }).codeScanningUpload) return;
+
+    // Code scanning rejects results without a location
+    const sarif = toSarif(findings.filter(finding => finding.filePath), {
+      repositoryUri: `https://github.com/${repository.owner}/${repository.repo}`,
+      commitSha,
+      category: CODE_SCANNING_CATEGORY,
+    });
+    await this.githubService.uploadSarif(repository, commitSha, `refs/pull/${pullNumber}/head`, sarif);
+  }
+}
@@ -1,8 +1,11 @@
 import { Module } from '@nestjs/common';
 import { GithubService } from './github.service';
+import { GithubAppAuthService } from './github-app-auth.service';
+import { ReviewPublisherService } from './review-publisher.service';
+import { GithubScmProvider } from './github-scm.provider';
 
 @Module({
-  providers: [GithubService],
-  exports: [GithubService],
+  providers: [GithubService, GithubAppAuthService, ReviewPublisherService, GithubScmProvider],
+  exports: [GithubService, ReviewPublisherService, GithubScmProvider],
 })
 export class GithubModule {}
\ No newline at end of file
@@ -1,148 +1,697 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { Octokit } from '@octokit/rest';
+import { gzipSync } from 'zlib';
+import { GithubAppAuthService } from './github-app-auth.service';
+import { parseFindingMarker, REPLY_MARKER } from './comment-markers';
+import { withRateLimitRetry } from './rate-limit';
+import { AppConfig } from '../../common/interfaces/config.interface';
 import { CodeIssue } from '../code-analysis/code-analysis.service';
+import { ParsedDiff } from '../../common/interfaces/diff.interface';
+import { parseUnifiedDiff } from '../../common/utils/diff-parser';
+
+export type ReviewEvent = 'REQUEST_CHANGES' | 'COMMENT';
+
+const REVIEW_THREADS_QUERY = `
+  query($owner: String!, $repo: String!, $pullNumber: Int!, $cursor: String) {
+    repository(owner: $owner, name: $repo) {
+      pullRequest(number: $pullNumber) {
+        reviewThreads(first: 100, after: $cursor) {
+          nodes {
+            id
+            isResolved
+            isOutdated
+            comments(first: 1) { nodes { databaseId } }
+          }
+          pageInfo { hasNextPage endCursor }
+        }
+      }
+    }
+  }`;
+
+const RESOLVE_THREAD_MUTATION = `
+  mutation($threadId: ID!) {
+    resolveReviewThread(input: { threadId: $threadId }) { thread { id } }
+  }`;
+
+interface ReviewThreadsResponse {
+  repository: {
+    pullRequest: {
+      reviewThreads: {
+        nodes: Array<{
+          id: string;
+          isResolved: boolean;
+          isOutdated: boolean;
+          comments: { nodes: Array<{ databaseId: number }> };
+        }>;
+        pageInfo: { hasNextPage: boolean; endCursor: string | null };
+      };
+    };
+  };
+}
+
+/** A repository and the GitHub App installation that grants access to it */
+export interface RepoRef {
+  owner: string;
+  repo: string;
+  /** Unset when running with a personal access token */
+  installationId?: number;
+}
+
+export interface PullRequestInfo {
+  headSha: string;
+  baseSha: string;
+  draft: boolean;
+  state: string;
+}
+
+export interface ReviewCommentInfo {
+  id: number;
+  body: string;
+  author: string;
+  path: string;
+  line?: number;
+  diffHunk: string;
+  /** Id of the thread's first comment; unset for the first comment itself */
+  inReplyToId?: number;
+}
+
+export interface ReviewThread {
+  /** GraphQL node id */
+  id: string;
+  isResolved: boolean;
+  isOutdated: boolean;
+  /** REST id of the comment that started the thread */
+  rootCommentId?: number;
+}
+
+export interface PullRequestFile {
+  path: string;
+  /** Unset for binary files and patches too large for GitHub to return */
+  patch?: string;
+}
+
+export interface NewReviewComment {
+  path: string;
+  line: number;
+  /** First line when the comment spans several lines */
+  start_line?: number;
+  body: string;
+}
+
+export interface NewReview {
+  commitSha: string;
+  event: ReviewEvent;
+  body?: string;
+  comments: NewReviewComment[];
+}
+
+/** A failed GitHub request, keeping the HTTP status for callers that react to it */
+export class GithubRequestError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+  }
+}
+
+export type CheckConclusion = 'success' | 'failure' | 'neutral' | 'cancelled';
+
+export interface CheckRunResult {
+  conclusion: CheckConclusion;
+  title: string;
+  summary: string;
+  /** Findings attached as annotations; those without a file and line are skipped */
+  issues?: CodeIssue[];
+}
+
+const CHECK_RUN_NAME = 'Lintelligence';
+// GitHub accepts at most 50 annotations per check run request
+const ANNOTATIONS_PER_REQUEST = 50;
+// Check run output text is limited to 65535 characters
+const MAX_CHECK_SUMMARY_LENGTH = 65000;
+
+const ANNOTATION_LEVELS: Record<CodeIssue['severity'], 'notice' | 'warning' | 'failure'> = {
+  low: 'notice',
+  medium: 'warning',
+  high: 'failure',
+  critical: 'failure',
+};
+
+/** Repository roles from least to most privileged */
+export const PERMISSION_LEVELS = ['none', 'read', 'write', 'admin'] as const;
+export type PermissionLevel = typeof PERMISSION_LEVELS[number];
 
 @Injectable()
 export class GithubService {
   private readonly logger = new Logger(GithubService.name);
   private readonly octokit: Octokit;
 
-  constructor() {
-    this.octokit = new Octokit({
-      auth: process.env.GITHUB_TOKEN,
-    });
+  constructor(
+    private readonly appAuthService: GithubAppAuthService,
+    configService: ConfigService<AppConfig, true>,
+  ) {
+    this.octokit = withRateLimitRetry(
+      new Octokit({ auth: configService.get('github', { infer: true }).token || undefined }),
+      this.logger,
+    );
   }
 
-  async getPullRequestDiff(owner: string, repo: string, pullNumber: number): Promise<string> {
+  async getPullRequestDiff(repository: RepoRef, pullNumber: number): Promise<ParsedDiff> {
     try {
-      const response = await this.octokit.pulls.get({
-        owner,
-        repo,
+      const octokit = await this.client(repository);
+      const response = await octokit.pulls.get({
+        owner: repository.owner,
+        repo: repository.repo,
         pull_number: pullNumber,
         mediaType: {
           format: 'diff',
         },
       });
 
-      return response.data as unknown as string;
+      return parseUnifiedDiff(response.data as unknown as string);
     } catch (error) {
       this.logger.error(`Failed to get PR diff: ${error instanceof Error ? error.message : 'Unknown error'}`);
       throw new Error('Failed to fetch pull request diff');
     }
   }
 
-  async postReviewComments(
-    owner: string,
-    repo: string,
-    pullNumber: number,
-    commitSha: string,
-    issues: CodeIssue[],
-  ): Promise<void> {
+  async getPullRequest(repository: RepoRef, pullNumber: number): Promise<PullRequestInfo> {
     try {
-      // Get the files changed in the PR
-      const files = await this.octokit.pulls.listFiles({
-        owner,
-        repo,
+      const octokit = await this.client(repository);
+      const response = await octokit.pulls.get({
+        owner: repository.owner,
+        repo: repository.repo,
         pull_number: pullNumber,
       });
 
-      // Create review comments for each issue
-      const comments = [];
+      return {
+        headSha: response.data.head.sha,
+        baseSha: response.data.base.sha,
+        draft: response.data.draft ?? false,
+        state: response.data.state,
+      };
+    } catch (error) {
+      this.logger.error(`Failed to get PR: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error('Failed to fetch pull request');
+    }
+  }
 
-      for (const issue of issues) {
-        if (issue.line && issue.type !== 'style') {
-          // Find the appropriate file for this line
-          const file = files.data.find(f =>
-            f.patch && this.isLineInFile(f.patch, parseInt(issue.line || '0'))
-          );
+  /**
+   * Diff between two commits, e.g. the last reviewed commit and the new head
+   */
+  async getCompareDiff(repository: RepoRef, baseSha: string, headSha: string): Promise<ParsedDiff> {
+    try {
+      const octokit = await this.client(repository);
+      const response = await octokit.repos.compareCommitsWithBasehead({
+        owner: repository.owner,
+        repo: repository.repo,
+        basehead: `${baseSha}...${headSha}`,
+        mediaType: {
+          format: 'diff',
+        },
+      });
 
-          if (file) {
-            comments.push({
-              path: file.filename,
-              line: parseInt(issue.line),
-              body: this.formatReviewComment(issue),
-            });
-          }
-        }
-      }
+      return parseUnifiedDiff(response.data as unknown as string);
+    } catch (error) {
+      this.logger.error(`Failed to get compare diff: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error('Failed to fetch compare diff');
+    }
+  }
 
-      if (comments.length > 0) {
-        await this.octokit.pulls.createReview({
-          owner,
-          repo,
-          pull_number: pullNumber,
-          commit_id: commitSha,
-          event: 'REQUEST_CHANGES',
-          comments,
-        });
+  /**
+   * Whether `ancestorSha` is reachable from `headSha`, i.e. the branch was
+   * not force-pushed or rebased since `ancestorSha`.
+   */
+  async isAncestor(repository: RepoRef, ancestorSha: string, headSha: string): Promise<boolean> {
+    try {
+      const octokit = await this.client(repository);
+      const response = await octokit.repos.compareCommitsWithBasehead({
+        owner: repository.owner,
+        repo: repository.repo,
+        basehead: `${ancestorSha}...${headSha}`,
+        per_page: 1,
+      });
 
-        this.logger.log(`Posted ${comments.length} review comments`);
+      return response.data.status === 'ahead' || response.data.status === 'identical';
+    } catch (error) {
+      // Unknown commits (e.g. garbage collected after a force push) are not ancestors
+      this.logger.warn(`Failed to compare ${ancestorSha}...${headSha}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return false;
+    }
+  }
+
+  /**
+   * The commit `headSha` branched off from `baseRef`, which moves when the
+   * base branch is merged into the pull request.
+   */
+  async getMergeBase(repository: RepoRef, baseRef: string, headSha: string): Promise<string | null> {
+    try {
+      const octokit = await this.client(repository);
+      const response = await octokit.repos.compareCommitsWithBasehead({
+        owner: repository.owner,
+        repo: repository.repo,
+        basehead: `${baseRef}...${headSha}`,
+        per_page: 1,
+      });
+
+      return response.data.merge_base_commit.sha;
+    } catch (error) {
+      this.logger.warn(`Failed to find the merge base of ${baseRef}...${headSha}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return null;
+    }
+  }
+
+  /**
+   * Returns the decoded content of a file at `ref`, or null if it does not exist.
+   */
+  async getFileContent(repository: RepoRef, path: string, ref: string): Promise<string | null> {
+    try {
+      const octokit = await this.client(repository);
+      const response = await octokit.repos.getContent({
+        owner: repository.owner,
+        repo: repository.repo,
+        path,
+        ref,
+      });
+
+      if (Array.isArray(response.data) || response.data.type !== 'file') {
+        return null;
       }
+
+      return Buffer.from(response.data.content, 'base64').toString('utf8');
     } catch (error) {
-      this.logger.error(`Failed to post review comments: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      throw new Error('Failed to post review comments');
+      if ((error as { status?: number }).status === 404) {
+        return null;
+      }
+
+      this.logger.error(`Failed to get file ${path}@${ref}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error('Failed to fetch file content');
     }
   }
 
-  async postReviewSummary(
-    owner: string,
-    repo: string,
-    pullNumber: number,
-    commitSha: string,
-    summary: string,
-  ): Promise<void> {
+  /** The user's effective role on the repository; maintain counts as write, triage as read */
+  async getPermissionLevel(repository: RepoRef, username: string): Promise<PermissionLevel> {
     try {
-      const body = `## AI Code Review Summary
+      const octokit = await this.client(repository);
+      const response = await octokit.repos.getCollaboratorPermissionLevel({
+        owner: repository.owner,
+        repo: repository.repo,
+        username,
+      });
 
-${summary}
+      const permission = response.data.permission as string;
+      return PERMISSION_LEVELS.includes(permission as PermissionLevel) ? permission as PermissionLevel : 'none';
+    } catch (error) {
+      // Non-collaborators get a 404
+      if ((error as { status?: number }).status === 404) {
+        return 'none';
+      }
 
----
-*This review was generated automatically by the AI Code Review Agent*`;
+      this.logger.error(`Failed to get permission of ${username}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error('Failed to fetch permission level');
+    }
+  }
 
-      await this.octokit.pulls.createReview({
-        owner,
-        repo,
+  async getReviewComment(repository: RepoRef, commentId: number): Promise<ReviewCommentInfo> {
+    try {
+      const octokit = await this.client(repository);
+      const { data } = await octokit.pulls.getReviewComment({
+        owner: repository.owner,
+        repo: repository.repo,
+        comment_id: commentId,
+      });
+
+      return this.toReviewCommentInfo(data);
+    } catch (error) {
+      this.logger.error(`Failed to get review comment: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error('Failed to fetch review comment');
+    }
+  }
+
+  /** The comments of the review thread started by `rootCommentId`, oldest first */
+  async listThreadComments(repository: RepoRef, pullNumber: number, rootCommentId: number): Promise<ReviewCommentInfo[]> {
+    try {
+      const octokit = await this.client(repository);
+      const comments = await octokit.paginate(octokit.pulls.listReviewComments, {
+        owner: repository.owner,
+        repo: repository.repo,
+        pull_number: pullNumber,
+        per_page: 100,
+      });
+
+      return comments
+        .filter(comment => comment.id === rootCommentId || comment.in_reply_to_id === rootCommentId)
+        .sort((a, b) => a.created_at.localeCompare(b.created_at))
+        .map(comment => this.toReviewCommentInfo(comment));
+    } catch (error) {
+      this.logger.error(`Failed to list thread comments: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error('Failed to fetch review thread');
+    }
+  }
+
+  /** Replies on the review thread started by `commentId` */
+  async replyToReviewComment(repository: RepoRef, pullNumber: number, commentId: number, body: string): Promise<void> {
+    try {
+      const octokit = await this.client(repository);
+      await octokit.pulls.createReplyForReviewComment({
+        owner: repository.owner,
+        repo: repository.repo,
         pull_number: pullNumber,
-        commit_id: commitSha,
-        event: 'COMMENT',
+        comment_id: commentId,
+        body: `${body}\n\n${REPLY_MARKER}`,
+      });
+    } catch (error) {
+      this.logger.error(`Failed to reply to review comment: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error('Failed to reply to review comment');
+    }
+  }
+
+  async listReviewThreads(repository: RepoRef, pullNumber: number): Promise<ReviewThread[]> {
+    try {
+      const octokit = await this.client(repository);
+      const threads: ReviewThread[] = [];
+      let cursor: string | null = null;
+
+      do {
+        const response: ReviewThreadsResponse = await octokit.graphql(REVIEW_THREADS_QUERY, {
+          owner: repository.owner,
+          repo: repository.repo,
+          pullNumber,
+          cursor,
+        });
+        const page = response.repository.pullRequest.reviewThreads;
+
+        for (const thread of page.nodes) {
+          threads.push({
+            id: thread.id,
+            isResolved: thread.isResolved,
+            isOutdated: thread.isOutdated,
+            rootCommentId: thread.comments.nodes[0]?.databaseId,
+          });
+        }
+
+        cursor = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : null;
+      } while (cursor);
+
+      return threads;
+    } catch (error) {
+      this.logger.error(`Failed to list review threads: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error('Failed to fetch review threads');
+    }
+  }
+
+  /**
+   * Resolves the review thread started by `rootCommentId`. Returns false if
+   * no such thread exists.
+   */
+  async resolveReviewThread(repository: RepoRef, pullNumber: number, rootCommentId: number): Promise<boolean> {
+    const thread = (await this.listReviewThreads(repository, pullNumber))
+      .find(candidate => candidate.rootCommentId === rootCommentId);
+    if (!thread) {
+      return false;
+    }
+
+    try {
+      const octokit = await this.client(repository);
+      await octokit.graphql(RESOLVE_THREAD_MUTATION, { threadId: thread.id });
+      return true;
+    } catch (error) {
+      this.logger.error(`Failed to resolve review thread: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error('Failed to resolve review thread');
+    }
+  }
+
+  async postIssueComment(repository: RepoRef, pullNumber: number, body: string): Promise<void> {
+    try {
+      const octokit = await this.client(repository);
+      await octokit.issues.createComment({
+        owner: repository.owner,
+        repo: repository.repo,
+        issue_number: pullNumber,
         body,
       });
+    } catch (error) {
+      this.logger.error(`Failed to post comment: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error('Failed to post comment');
+    }
+  }
+
+  /** Id of the first pull request comment containing the marker */
+  async findIssueComment(repository: RepoRef, pullNumber: number, marker: string): Promise<number | undefined> {
+    try {
+      const octokit = await this.client(repository);
+      const comments = await octokit.paginate(octokit.issues.listComments, {
+        owner: repository.owner,
+        repo: repository.repo,
+        issue_number: pullNumber,
+        per_page: 100,
+      });
+
+      return comments.find(comment => comment.body?.includes(marker))?.id;
+    } catch (error) {
+      this.logger.error(`Failed to list comments: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error('Failed to list comments');
+    }
+  }
 
-      this.logger.log('Posted review summary');
+  async updateIssueComment(repository: RepoRef, commentId: number, body: string): Promise<void> {
+    try {
+      const octokit = await this.client(repository);
+      await octokit.issues.updateComment({
+        owner: repository.owner,
+        repo: repository.repo,
+        comment_id: commentId,
+        body,
+      });
     } catch (error) {
-      this.logger.error(`Failed to post review summary: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      throw new Error('Failed to post review summary');
+      this.logger.error(`Failed to update comment: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error('Failed to update comment');
     }
   }
 
-  private formatReviewComment(issue: CodeIssue): string {
-    return `**${issue.type.toUpperCase()}** (${issue.severity})
+  /** Every file of the pull request with its patch, across all pages */
+  async listPullRequestFiles(repository: RepoRef, pullNumber: number): Promise<PullRequestFile[]> {
+    try {
+      const octokit = await this.client(repository);
+      const files = await octokit.paginate(octokit.pulls.listFiles, {
+        owner: repository.owner,
+        repo: repository.repo,
+        pull_number: pullNumber,
+        per_page: 100,
+      });
+
+      return files.map(file => ({ path: file.filename, patch: file.patch }));
+    } catch (error) {
+      this.logger.error(`Failed to list pull request files: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error('Failed to list pull request files');
+    }
+  }
 
-${issue.message}
+  /** Submits a review and returns its id */
+  async createReview(repository: RepoRef, pullNumber: number, review: NewReview): Promise<number> {
+    try {
+      const octokit = await this.client(repository);
+      const response = await octokit.pulls.createReview({
+        owner: repository.owner,
+        repo: repository.repo,
+        pull_number: pullNumber,
+        commit_id: review.commitSha,
+        event: review.event,
+        body: review.body,
+        comments: review.comments,
+      });
 
-**Suggestion:** ${issue.suggestion}`;
+      return response.data.id;
+    } catch (error) {
+      this.logger.error(`Failed to create review: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new GithubRequestError('Failed to create review', requestStatus(error));
+    }
   }
 
-  private isLineInFile(patch: string, lineNumber: number): boolean {
-    // Simple heuristic to check if a line number is in the file patch
-    // This is a simplified implementation
-    const lines = patch.split('\n');
-    let currentLine = 0;
+  /** Maps finding ids to the ids of the review comments posted for them */
+  async getReviewCommentIds(repository: RepoRef, pullNumber: number, reviewId: number): Promise<Map<string, number>> {
+    try {
+      const octokit = await this.client(repository);
+      const posted = await octokit.paginate(octokit.pulls.listCommentsForReview, {
+        owner: repository.owner,
+        repo: repository.repo,
+        pull_number: pullNumber,
+        review_id: reviewId,
+        per_page: 100,
+      });
 
-    for (const line of lines) {
-      if (line.startsWith('@@')) {
-        const match = line.match(/\+(\d+)/);
-        if (match) {
-          currentLine = parseInt(match[1]);
-        }
-      } else if (line.startsWith('+') || line.startsWith(' ')) {
-        currentLine++;
-        if (currentLine === lineNumber) {
-          return true;
-        }
+      const ids = new Map<string, number>();
+      for (const comment of posted) {
+        const findingId = parseFindingMarker(comment.body);
+        if (findingId) ids.set(findingId, comment.id);
       }
+
+      return ids;
+    } catch (error) {
+      this.logger.error(`Failed to list review comments: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error('Failed to list review comments');
+    }
+  }
+
+  /** Creates a queued check run for the commit and returns its id */
+  async createCheckRun(repository: RepoRef, headSha: string): Promise<number> {
+    try {
+      const octokit = await this.client(repository);
+      const response = await octokit.checks.create({
+        owner: repository.owner,
+        repo: repository.repo,
+        name: CHECK_RUN_NAME,
+        head_sha: headSha,
+        status: 'queued',
+      });
+
+      return response.data.id;
+    } catch (error) {
+      this.logger.error(`Failed to create check run: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error('Failed to create check run');
+    }
+  }
+
+  /** Id of the latest check run of this app on the commit, if any */
+  async findCheckRun(repository: RepoRef, headSha: string): Promise<number | undefined> {
+    try {
+      const octokit = await this.client(repository);
+      const response = await octokit.checks.listForRef({
+        owner: repository.owner,
+        repo: repository.repo,
+        ref: headSha,
+        check_name: CHECK_RUN_NAME,
+        filter: 'latest',
+      });
+
+      return response.data.check_runs[0]?.id;
+    } catch (error) {
+      this.logger.error(`Failed to list check runs: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error('Failed to list check runs');
     }
+  }
 
-    return false;
+  async startCheckRun(repository: RepoRef, checkRunId: number): Promise<void> {
+    try {
+      const octokit = await this.client(repository);
+      await octokit.checks.update({
+        owner: repository.owner,
+        repo: repository.repo,
+        check_run_id: checkRunId,
+        status: 'in_progress',
+        started_at: new Date().toISOString(),
+      });
+    } catch (error) {
+      this.logger.error(`Failed to start check run: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error('Failed to update check run');
+    }
   }
-}
\ No newline at end of file
+
+  /** Completes the check run, attaching findings as annotations in batches */
+  async completeCheckRun(repository: RepoRef, checkRunId: number, result: CheckRunResult): Promise<void> {
+    try {
+      const octokit = await this.client(repository);
+      const annotations = (result.issues ?? [])
+        .filter(issue => issue.filePath && issue.line)
+        .map(issue => ({
+          path: issue.filePath as string,
+          start_line: issue.line as number,
+          end_line: issue.line as number,
+          annotation_level: ANNOTATION_LEVELS[issue.severity],
+          title: `${issue.type} (${issue.severity})${issue.ruleId ? ` - ${issue.ruleId}` : ''}`,
+          message: `${issue.message}\n\nSuggestion: ${issue.suggestion}`,
+        }));
+      const output = {
+        title: result.title,
+        summary: result.summary.length > MAX_CHECK_SUMMARY_LENGTH
+          ? `${result.summary.substring(0, MAX_CHECK_SUMMARY_LENGTH)}…`
+          : result.summary,
+      };
+
+      // Later requests append their annotations to the completed run
+      let offset = 0;
+      do {
+        await octokit.checks.update({
+          owner: repository.owner,
+          repo: repository.repo,
+          check_run_id: checkRunId,
+          ...(offset === 0 && {
+            status: 'completed' as const,
+            conclusion: result.conclusion,
+            completed_at: new Date().toISOString(),
+          }),
+          output: { ...output, annotations: annotations.slice(offset, offset + ANNOTATIONS_PER_REQUEST) },
+        });
+        offset += ANNOTATIONS_PER_REQUEST;
+      } while (offset < annotations.length);
+
+      this.logger.log(`Completed check run ${checkRunId} as ${result.conclusion} with ${annotations.length} annotations`);
+    } catch (error) {
+      this.logger.error(`Failed to complete check run: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error('Failed to update check run');
+    }
+  }
+
+  /**
+   * Uploads a SARIF log to code scanning for the commit and returns the
+   * upload id. Needs the `security_events` write permission.
+   */
+  async uploadSarif(repository: RepoRef, commitSha: string, ref: string, sarif: object): Promise<string | undefined> {
+    try {
+      const octokit = await this.client(repository);
+      const response = await octokit.codeScanning.uploadSarif({
+        owner: repository.owner,
+        repo: repository.repo,
+        commit_sha: commitSha,
+        ref,
+        // The API takes the log gzip-compressed and base64-encoded
+        sarif: gzipSync(JSON.stringify(sarif)).toString('base64'),
+      });
+
+      return response.data.id;
+    } catch (error) {
+      this.logger.error(`Failed to upload SARIF: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error('Failed to upload SARIF');
+    }
+  }
+
+  /**
+   * Client authenticated for the repository: an installation token when
+   * running as a GitHub App, the personal access token otherwise
+   */
+  private async client(repository: RepoRef): Promise<Octokit> {
+    if (repository.installationId !== undefined && this.appAuthService.isConfigured()) {
+      return withRateLimitRetry(
+        new Octokit({ auth: await this.appAuthService.getInstallationToken(repository.installationId) }),
+        this.logger,
+      );
+    }
+
+    return this.octokit;
+  }
+
+  private toReviewCommentInfo(data: {
+    id: number;
+    body: string;
+    user: { login: string } | null;
+    path: string;
+    line?: number | null;
+    original_line?: number | null;
+    diff_hunk: string;
+    in_reply_to_id?: number;
+  }): ReviewCommentInfo {
+    return {
+      id: data.id,
+      body: data.body,
+      author: data.user?.login ?? 'ghost',
+      path: data.path,
+      line: data.line ?? data.original_line ?? undefined,
+      diffHunk: data.diff_hunk,
+      inReplyToId: data.in_reply_to_id,
+    };
+  }
+}
+
+function requestStatus(error: unknown): number | undefined {
+  const status = typeof error === 'object' && error !== null ? (error as { status?: unknown }).status : undefined;
+  return typeof status === 'number' ? status : undefined;
+}
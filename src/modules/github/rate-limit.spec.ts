@@ -0,0 +1,34 @@
+import { rateLimitDelay } from './rate-limit';
+
+describe('rateLimitDelay', () => {
+  const now = 1_700_000_000_000;
+
+  function error(status: number, headers: Record<string, string> = {}, message = '') {
+    return { status, message, response: { headers } };
+  }
+
+  it('honours retry-after', () => {
+    expect(rateLimitDelay(error(403, { 'retry-after': '30' }), 0, now)).toBe(30_000);
+  });
+
+  it('waits for the primary limit to reset', () => {
+    const reset = String(now / 1000 + 120);
+
+    expect(rateLimitDelay(error(403, { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': reset }), 0, now)).toBe(121_000);
+  });
+
+  it('backs off exponentially for secondary limits', () => {
+    const secondary = error(403, {}, 'You have exceeded a secondary rate limit');
+
+    expect(rateLimitDelay(secondary, 0, now)).toBe(60_000);
+    expect(rateLimitDelay(secondary, 2, now)).toBe(240_000);
+    expect(rateLimitDelay(error(429), 1, now)).toBe(120_000);
+  });
+
+  it('ignores errors that are not rate limits', () => {
+    expect(rateLimitDelay(error(403, {}, 'Resource not accessible by integration'), 0, now)).toBeUndefined();
+    expect(rateLimitDelay(error(422), 0, now)).toBeUndefined();
+    expect(rateLimitDelay(new Error('socket hang up'), 0, now)).toBeUndefined();
+    expect(rateLimitDelay(undefined, 0, now)).toBeUndefined();
+  });
+});
@@ -0,0 +1,67 @@
+import { Logger } from '@nestjs/common';
+import { Octokit } from '@octokit/rest';
+
+// Give up rather than hold a worker for a long primary rate limit reset
+const MAX_RATE_LIMIT_WAIT_MS = 5 * 60 * 1000;
+const MAX_RATE_LIMIT_RETRIES = 3;
+// Secondary limits come without a reset time; GitHub asks for at least a minute
+const SECONDARY_LIMIT_BACKOFF_MS = 60 * 1000;
+
+interface RequestErrorLike {
+  status?: number;
+  message?: string;
+  response?: { headers?: Record<string, string | number | undefined> };
+}
+
+/**
+ * How long to wait before retrying a request GitHub rejected for rate
+ * limiting, or undefined when the error is not a rate limit. Honours
+ * `retry-after` and `x-ratelimit-reset`, and backs off exponentially for
+ * secondary limits that carry neither.
+ */
+export function rateLimitDelay(error: unknown, attempt: number, now = Date.now()): number | undefined {
+  if (typeof error !== 'object' || error === null) return undefined;
+
+  const { status, message = '', response } = error as RequestErrorLike;
+  if (status !== 403 && status !== 429) return undefined;
+
+  const headers = response?.headers ?? {};
+  const retryAfter = Number(headers['retry-after']);
+  if (retryAfter > 0) {
+    return retryAfter * 1000;
+  }
+
+  const reset = Number(headers['x-ratelimit-reset']);
+  if (String(headers['x-ratelimit-remaining']) === '0' && reset > 0) {
+    // One extra second for clock drift
+    return Math.max(0, reset * 1000 - now) + 1000;
+  }
+
+  if (status === 429 || /secondary rate limit/i.test(message)) {
+    return SECONDARY_LIMIT_BACKOFF_MS * 2 ** attempt;
+  }
+
+  // A plain 403 is a permission problem, not a rate limit
+  return undefined;
+}
+
+/** Retries every request of the client that hits a rate limit */
+export function withRateLimitRetry(octokit: Octokit, logger: Logger): Octokit {
+  octokit.hook.wrap('request', async (request, options) => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await request(options);
+      } catch (error) {
+        const delay = rateLimitDelay(error, attempt);
+        if (delay === undefined || attempt >= MAX_RATE_LIMIT_RETRIES || delay > MAX_RATE_LIMIT_WAIT_MS) {
+          throw error;
+        }
+
+        logger.warn(`GitHub rate limit hit on ${options.method} ${options.url}, retrying in ${Math.ceil(delay / 1000)}s`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  });
+
+  return octokit;
+}
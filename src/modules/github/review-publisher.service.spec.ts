@@ -0,0 +1,117 @@
+import { GithubRequestError, GithubService, NewReview } from './github.service';
+import { ReviewPublisherService } from './review-publisher.service';
+import { ReviewFinding } from '../scm/scm-provider.interface';
+
+const REPOSITORY = { owner: 'acme', repo: 'api' };
+const PATH = 'src/app.ts';
+
+function finding(line: number, message = `Issue on line ${line}`): ReviewFinding {
+  return { type: 'bug', severity: 'high', message, suggestion: '', filePath: PATH, line, findingId: `f${line}` };
+}
+
+function setup(createReview: (review: NewReview) => Promise<number>) {
+  const reviews: NewReview[] = [];
+  const github = {
+    listPullRequestFiles: jest.fn().mockResolvedValue([
+      { path: PATH, patch: `@@ -0,0 +1,200 @@\n${Array.from({ length: 200 }, (_, i) => `+line ${i + 1}`).join('\n')}` },
+    ]),
+    createReview: jest.fn(async (_repository, _pullNumber, review: NewReview) => {
+      reviews.push(review);
+      return createReview(review);
+    }),
+    getReviewCommentIds: jest.fn().mockResolvedValue(new Map()),
+  };
+
+  return { publisher: new ReviewPublisherService(github as unknown as GithubService), reviews };
+}
+
+describe('ReviewPublisherService', () => {
+  beforeEach(() => {
+    // Skip the pause between reviews
+    jest.spyOn(global, 'setTimeout').mockImplementation(((callback: () => void) => {
+      callback();
+      return 0;
+    }) as unknown as typeof setTimeout);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('counts findings on lines outside the diff as skipped', async () => {
+    const { publisher, reviews } = setup(async () => 1);
+
+    const result = await publisher.publish(REPOSITORY, 7, { commitSha: 'abc', event: 'COMMENT', findings: [finding(3), finding(500)] });
+
+    expect(reviews).toHaveLength(1);
+    expect(reviews[0].comments.map(comment => comment.line)).toEqual([3]);
+    expect(result).toMatchObject({ posted: 1, skipped: 1, failed: [], postedFindingIds: ['f3'] });
+  });
+
+  it('splits large reviews into batches, with the body and event on the first only', async () => {
+    const { publisher, reviews } = setup(async () => 1);
+    const findings = Array.from({ length: 120 }, (_, i) => finding(i + 1));
+
+    const result = await publisher.publish(REPOSITORY, 7, { commitSha: 'abc', event: 'REQUEST_CHANGES', findings });
+
+    expect(reviews.map(review => review.comments.length)).toEqual([50, 50, 20]);
+    expect(reviews.map(review => review.event)).toEqual(['REQUEST_CHANGES', 'COMMENT', 'COMMENT']);
+    expect(reviews.map(review => review.body !== undefined)).toEqual([true, false, false]);
+    expect(result.posted).toBe(120);
+  });
+
+  it('starts a new batch when the comment text grows too long', async () => {
+    const { publisher, reviews } = setup(async () => 1);
+    const findings = Array.from({ length: 4 }, (_, i) => finding(i + 1, 'x'.repeat(25000)));
+
+    await publisher.publish(REPOSITORY, 7, { commitSha: 'abc', event: 'COMMENT', findings });
+
+    expect(reviews.map(review => review.comments.length)).toEqual([2, 2]);
+  });
+
+  it('splits a rejected batch until the offending comment is isolated', async () => {
+    const { publisher, reviews } = setup(async review => {
+      if (review.comments.some(comment => comment.line === 3)) {
+        throw new GithubRequestError('Failed to create review', 422);
+      }
+      return 1;
+    });
+
+    const result = await publisher.publish(REPOSITORY, 7, { commitSha: 'abc', event: 'COMMENT', findings: [1, 2, 3, 4].map(line => finding(line)) });
+
+    expect(reviews.map(review => review.comments.map(comment => comment.line))).toEqual([
+      [1, 2, 3, 4],
+      [1, 2],
+      [3, 4],
+      [3],
+      [4],
+    ]);
+    expect(result.posted).toBe(3);
+    expect(result.failed.map(failed => failed.line)).toEqual([3]);
+  });
+
+  it('retries a rejected review event once as a comment before splitting', async () => {
+    const { publisher, reviews } = setup(async review => {
+      if (review.event === 'REQUEST_CHANGES') {
+        throw new GithubRequestError('Failed to create review', 422);
+      }
+      return 1;
+    });
+
+    const result = await publisher.publish(REPOSITORY, 7, { commitSha: 'abc', event: 'REQUEST_CHANGES', findings: [finding(1), finding(2)] });
+
+    expect(reviews.map(review => [review.event, review.comments.length])).toEqual([
+      ['REQUEST_CHANGES', 2],
+      ['COMMENT', 2],
+    ]);
+    expect(reviews[1].body).toBeDefined();
+    expect(result.posted).toBe(2);
+  });
+
+  it('fails the publish on other errors while nothing is posted', async () => {
+    const { publisher } = setup(async () => {
+      throw new GithubRequestError('Failed to create review', 502);
+    });
+
+    await expect(publisher.publish(REPOSITORY, 7, { commitSha: 'abc', event: 'COMMENT', findings: [finding(1)] }))
+      .rejects.toThrow('Failed to create review');
+  });
+});
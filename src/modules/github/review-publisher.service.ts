@@ -0,0 +1,223 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { GithubRequestError, GithubService, NewReviewComment, RepoRef, ReviewEvent } from './github.service';
+import { SUMMARY_MARKER } from './comment-markers';
+import { formatSummaryComment, SummaryReport } from '../scm/summary-comment';
+import { fencedBlock, formatFindingComment } from '../scm/finding-comment';
+import { PublishedReview, ReviewFinding, ReviewToPublish } from '../scm/scm-provider.interface';
+import { isCommentableLine, parseHunks } from '../../common/utils/diff-parser';
+import { DiffHunk } from '../../common/interfaces/diff.interface';
+
+// GitHub does not document a limit, but large reviews time out or are rejected
+const MAX_COMMENTS_PER_REVIEW = 50;
+const MAX_COMMENT_CHARS_PER_REVIEW = 60000;
+// GitHub asks for a pause between content-creating requests
+const REVIEW_REQUEST_INTERVAL_MS = 1000;
+
+interface PendingComment {
+  finding: ReviewFinding;
+  comment: NewReviewComment;
+}
+
+interface PublishContext {
+  repository: RepoRef;
+  pullNumber: number;
+  review: ReviewToPublish;
+  body: string;
+  /** Event of the first review; falls back to `COMMENT` when GitHub rejects it */
+  event: ReviewEvent;
+  /** Reviews submitted so far */
+  reviews: number;
+  result: PublishedReview;
+}
+
+/**
+ * Posts a review's inline comments as a single GitHub review, and keeps one
+ * summary comment per pull request up to date. Comments that do not fit are
+ * sent in follow-up reviews, and batches GitHub rejects are split until the
+ * offending comments are isolated, so one bad line never loses the rest of
+ * the review.
+ */
+@Injectable()
+export class ReviewPublisherService {
+  private readonly logger = new Logger(ReviewPublisherService.name);
+
+  constructor(private readonly githubService: GithubService) {}
+
+  async publish(repository: RepoRef, pullNumber: number, review: ReviewToPublish): Promise<PublishedReview> {
+    const files = await this.githubService.listPullRequestFiles(repository, pullNumber);
+
+    // Only lines that appear in a file's patch can carry inline comments
+    const hunksByPath = new Map(
+      files
+        .filter(file => file.patch)
+        .map(file => [file.path, parseHunks(file.patch as string)]),
+    );
+
+    const pending: PendingComment[] = [];
+    for (const finding of review.findings) {
+      const comment = this.toComment(finding, hunksByPath);
+      if (comment) pending.push({ finding, comment });
+    }
+
+    const context: PublishContext = {
+      repository,
+      pullNumber,
+      review,
+      body: this.formatReviewBody(pending.length),
+      event: review.event,
+      reviews: 0,
+      result: {
+        commentIds: new Map(),
+        posted: 0,
+        postedFindingIds: [],
+        skipped: review.findings.length - pending.length,
+        failed: [],
+      },
+    };
+
+    for (const batch of this.toBatches(pending)) {
+      await this.postBatch(context, batch);
+    }
+
+    const { result } = context;
+    if (result.failed.length > 0) {
+      this.logger.warn(`Posted ${result.posted} of ${pending.length} review comments on ${repository.owner}/${repository.repo}#${pullNumber}; ${result.failed.length} failed`);
+    } else {
+      this.logger.log(`Posted review with ${result.posted} comments in ${context.reviews} parts`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Creates or edits the pull request's summary comment, found by its
+   * hidden marker
+   */
+  async publishSummary(repository: RepoRef, pullNumber: number, report: SummaryReport): Promise<void> {
+    const body = formatSummaryComment(report);
+    const commentId = await this.githubService.findIssueComment(repository, pullNumber, SUMMARY_MARKER);
+
+    if (commentId === undefined) {
+      await this.githubService.postIssueComment(repository, pullNumber, body);
+    } else {
+      await this.githubService.updateIssueComment(repository, commentId, body);
+    }
+
+    this.logger.log(`${commentId === undefined ? 'Posted' : 'Updated'} summary comment on ${repository.owner}/${repository.repo}#${pullNumber}`);
+  }
+
+  /**
+   * Submits a batch; the first review to succeed carries the body and the
+   * configured event. A batch GitHub rejects as invalid is retried once as
+   * a plain comment, since the event itself may be refused (e.g. requesting
+   * changes on the bot's own pull request), then halved and retried; other
+   * errors fail the publish only while nothing is on the pull request yet.
+   */
+  private async postBatch(context: PublishContext, batch: PendingComment[]): Promise<void> {
+    const { repository, pullNumber, review, result } = context;
+    const first = context.reviews === 0;
+
+    if (!first) {
+      await new Promise(resolve => setTimeout(resolve, REVIEW_REQUEST_INTERVAL_MS));
+    }
+
+    let reviewId: number;
+    try {
+      reviewId = await this.githubService.createReview(repository, pullNumber, {
+        commitSha: review.commitSha,
+        event: first ? context.event : 'COMMENT',
+        body: first ? context.body : undefined,
+        comments: batch.map(pending => pending.comment),
+      });
+    } catch (error) {
+      const rejected = error instanceof GithubRequestError && error.status === 422;
+
+      if (rejected && first && context.event !== 'COMMENT') {
+        this.logger.warn(`GitHub rejected a ${context.event} review on ${repository.owner}/${repository.repo}#${pullNumber}, retrying as COMMENT`);
+        context.event = 'COMMENT';
+        await this.postBatch(context, batch);
+        return;
+      }
+      if (rejected && batch.length > 1) {
+        const middle = Math.ceil(batch.length / 2);
+        await this.postBatch(context, batch.slice(0, middle));
+        await this.postBatch(context, batch.slice(middle));
+        return;
+      }
+      if (!rejected && first) {
+        throw error;
+      }
+
+      result.failed.push(...batch.map(pending => pending.finding));
+      return;
+    }
+
+    context.reviews++;
+    result.posted += batch.length;
+    for (const { finding } of batch) {
+      if (finding.findingId) result.postedFindingIds.push(finding.findingId);
+    }
+
+    try {
+      const ids = await this.githubService.getReviewCommentIds(repository, pullNumber, reviewId);
+      ids.forEach((commentId, findingId) => result.commentIds.set(findingId, commentId));
+    } catch (error) {
+      // The comments are posted; only thread-state syncing misses them
+      this.logger.warn(`Could not link comments of review ${reviewId} to their findings`);
+    }
+  }
+
+  private toComment(finding: ReviewFinding, hunksByPath: Map<string, DiffHunk[]>): NewReviewComment | undefined {
+    if (!finding.filePath || !finding.line) return undefined;
+
+    const hunks = hunksByPath.get(finding.filePath);
+    if (!hunks) return undefined;
+
+    // Suggestions span the lines they replace
+    const { replacement } = finding;
+    if (replacement && isCommentableLine(hunks, replacement.startLine) && isCommentableLine(hunks, replacement.endLine)) {
+      return {
+        path: finding.filePath,
+        line: replacement.endLine,
+        ...(replacement.startLine < replacement.endLine && { start_line: replacement.startLine }),
+        body: formatFindingComment(finding, fencedBlock('suggestion', replacement.code)),
+      };
+    }
+
+    if (isCommentableLine(hunks, finding.line)) {
+      return {
+        path: finding.filePath,
+        line: finding.line,
+        body: formatFindingComment(finding),
+      };
+    }
+
+    return undefined;
+  }
+
+  /** Splits comments into reviews small enough for GitHub to accept */
+  private toBatches(pending: PendingComment[]): PendingComment[][] {
+    const batches: PendingComment[][] = [];
+    let current: PendingComment[] = [];
+    let chars = 0;
+
+    for (const item of pending) {
+      const size = item.comment.body.length;
+      if (current.length > 0 && (current.length >= MAX_COMMENTS_PER_REVIEW || chars + size > MAX_COMMENT_CHARS_PER_REVIEW)) {
+        batches.push(current);
+        current = [];
+        chars = 0;
+      }
+
+      current.push(item);
+      chars += size;
+    }
+
+    if (current.length > 0) batches.push(current);
+    return batches;
+  }
+
+  private formatReviewBody(comments: number): string {
+    return `Found ${comments} issues in this commit. The summary comment on this pull request has an overview.`;
+  }
+}
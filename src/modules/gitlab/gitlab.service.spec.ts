@@ -0,0 +1,137 @@
+import { ConfigService } from '@nestjs/config';
+import { GitlabService } from './gitlab.service';
+import { AppConfig } from '../../common/interfaces/config.interface';
+import { ReviewFinding } from '../scm/scm-provider.interface';
+
+const REPOSITORY = { owner: 'acme/backend', repo: 'api' };
+const PROJECT = `/projects/${encodeURIComponent('acme/backend/api')}`;
+const DIFF_REFS = { base_sha: 'base', start_sha: 'start', head_sha: 'head' };
+
+const DIFFS = [
+  {
+    old_path: 'src/app.ts',
+    new_path: 'src/app.ts',
+    diff: '@@ -1,3 +1,4 @@\n const a = 1;\n-const b = 2;\n+const b = 3;\n+const c = 4;\n export { a };\n',
+    new_file: false,
+    renamed_file: false,
+    deleted_file: false,
+  },
+  {
+    old_path: 'old.ts',
+    new_path: 'new.ts',
+    diff: '',
+    new_file: false,
+    renamed_file: true,
+    deleted_file: false,
+  },
+  {
+    old_path: 'added.ts',
+    new_path: 'added.ts',
+    diff: '@@ -0,0 +1 @@\n+export {};\n',
+    new_file: true,
+    renamed_file: false,
+    deleted_file: false,
+  },
+];
+
+function finding(line: number, extra: Partial<ReviewFinding> = {}): ReviewFinding {
+  return { type: 'bug', severity: 'high', message: 'Wrong value', suggestion: '', filePath: 'src/app.ts', line, findingId: `f${line}`, ...extra };
+}
+
+describe('GitlabService', () => {
+  const config = { get: () => ({ url: 'https://gitlab.example.com', token: 'secret' }) };
+  const service = new GitlabService(config as unknown as ConfigService<AppConfig, true>);
+  let posted: Array<{ url: string; body: any }>;
+
+  beforeEach(() => {
+    posted = [];
+    jest.spyOn(global, 'fetch').mockImplementation(async (input, init) => {
+      const url = String(input).replace('https://gitlab.example.com/api/v4', '');
+      if (init?.method === 'POST') {
+        posted.push({ url, body: JSON.parse(init.body as string) });
+        return new Response('{}');
+      }
+      if (url.startsWith(`${PROJECT}/merge_requests/7/diffs`)) {
+        return new Response(JSON.stringify(DIFFS));
+      }
+      if (url === `${PROJECT}/merge_requests/7`) {
+        return new Response(JSON.stringify({ diff_refs: DIFF_REFS }));
+      }
+      return new Response('{}', { status: 404 });
+    });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  describe('getDiff', () => {
+    it('rebuilds a unified diff from the per-file diffs', async () => {
+      const diff = await service.getDiff(REPOSITORY, 7);
+
+      expect(diff.raw.split('\n').slice(0, 5)).toEqual([
+        'diff --git a/src/app.ts b/src/app.ts',
+        '--- a/src/app.ts',
+        '+++ b/src/app.ts',
+        '@@ -1,3 +1,4 @@',
+        ' const a = 1;',
+      ]);
+      expect(diff.files.map(file => [file.path, file.status])).toEqual([
+        ['src/app.ts', 'modified'],
+        ['new.ts', 'renamed'],
+        ['added.ts', 'added'],
+      ]);
+      expect(diff.files[1].oldPath).toBe('old.ts');
+      expect(diff.files[0].hunks[0].lines.map(line => [line.type, line.oldLineNumber, line.newLineNumber])).toEqual([
+        ['context', 1, 1],
+        ['removed', 2, undefined],
+        ['added', undefined, 2],
+        ['added', undefined, 3],
+        ['context', 3, 4],
+      ]);
+    });
+  });
+
+  describe('postInlineComments', () => {
+    it('anchors discussions on the new line of added lines', async () => {
+      const result = await service.postInlineComments(REPOSITORY, 7, { commitSha: 'head', event: 'COMMENT', findings: [finding(2)] });
+
+      expect(result).toMatchObject({ posted: 1, skipped: 0, postedFindingIds: ['f2'] });
+      expect(posted).toHaveLength(1);
+      expect(posted[0].url).toBe(`${PROJECT}/merge_requests/7/discussions`);
+      expect(posted[0].body.position).toEqual({
+        position_type: 'text',
+        base_sha: 'base',
+        start_sha: 'start',
+        head_sha: 'head',
+        old_path: 'src/app.ts',
+        new_path: 'src/app.ts',
+        new_line: 2,
+      });
+    });
+
+    it('identifies context lines by both sides', async () => {
+      await service.postInlineComments(REPOSITORY, 7, { commitSha: 'head', event: 'COMMENT', findings: [finding(4)] });
+
+      expect(posted[0].body.position).toMatchObject({ new_line: 4, old_line: 3 });
+    });
+
+    it('anchors suggestions on their last line, reaching back to the first', async () => {
+      const replacement = { startLine: 2, endLine: 3, code: 'const b = 2;\nconst c = 3;' };
+
+      await service.postInlineComments(REPOSITORY, 7, { commitSha: 'head', event: 'COMMENT', findings: [finding(2, { replacement })] });
+
+      expect(posted[0].body.position.new_line).toBe(3);
+      expect(posted[0].body.body).toContain('```suggestion:-1+0\nconst b = 2;\nconst c = 3;\n```');
+    });
+
+    it('skips findings outside the diff', async () => {
+      const result = await service.postInlineComments(REPOSITORY, 7, {
+        commitSha: 'head',
+        event: 'COMMENT',
+        findings: [finding(40), finding(1, { filePath: 'other.ts' }), finding(1, { filePath: undefined })],
+      });
+
+      expect(result).toMatchObject({ posted: 0, skipped: 3 });
+      expect(posted).toEqual([]);
+    });
+  });
+});
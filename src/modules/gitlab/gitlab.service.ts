@@ -0,0 +1,356 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RepoRef } from '../github/github.service';
+import { SUMMARY_MARKER } from '../github/comment-markers';
+import { fencedBlock, formatFindingComment } from '../scm/finding-comment';
+import { formatSummaryComment, SummaryReport } from '../scm/summary-comment';
+import {
+  PublishedReview,
+  ReviewFinding,
+  ReviewToPublish,
+  ScmProvider,
+  ScmPullRequest,
+  ScmStatus,
+} from '../scm/scm-provider.interface';
+import { AppConfig } from '../../common/interfaces/config.interface';
+import { DiffFile, DiffLine, ParsedDiff } from '../../common/interfaces/diff.interface';
+import { findDiffFile, parseUnifiedDiff } from '../../common/utils/diff-parser';
+
+/** A file change as returned by the merge request diffs and compare APIs */
+interface GitlabDiff {
+  old_path: string;
+  new_path: string;
+  diff: string;
+  new_file: boolean;
+  renamed_file: boolean;
+  deleted_file: boolean;
+}
+
+/** The commits a merge request's diff is computed between */
+interface DiffRefs {
+  base_sha: string;
+  start_sha: string;
+  head_sha: string;
+}
+
+interface GitlabNote {
+  id: number;
+  body: string;
+  system: boolean;
+}
+
+const STATUS_NAME = 'Lintelligence';
+// Commit status descriptions are limited to 255 characters
+const MAX_STATUS_DESCRIPTION_LENGTH = 255;
+const MAX_RATE_LIMIT_RETRIES = 3;
+const MAX_RATE_LIMIT_WAIT_MS = 60 * 1000;
+
+type GitlabStatusState = 'pending' | 'running' | 'success' | 'failed' | 'canceled';
+
+// A review that could not complete must not block merging
+const CONCLUSION_STATES: Record<Extract<ScmStatus, { state: 'completed' }>['conclusion'], GitlabStatusState> = {
+  success: 'success',
+  failure: 'failed',
+  neutral: 'success',
+  cancelled: 'canceled',
+};
+
+/** A failed GitLab API request, keeping the HTTP status */
+export class GitlabRequestError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+/**
+ * GitLab merge requests over the REST API (v4). Findings are posted as
+ * diff discussions, the summary as an MR note and the review's progress as
+ * a commit status. Merge requests are addressed by project path and iid.
+ */
+@Injectable()
+export class GitlabService implements ScmProvider {
+  readonly name = 'gitlab' as const;
+  private readonly logger = new Logger(GitlabService.name);
+
+  constructor(private readonly configService: ConfigService<AppConfig, true>) {}
+
+  async getPullRequest(repository: RepoRef, mergeRequestIid: number): Promise<ScmPullRequest> {
+    try {
+      const mergeRequest = await this.request<{ sha: string; target_branch: string; state: string }>(
+        'GET',
+        `${this.projectPath(repository)}/merge_requests/${mergeRequestIid}`,
+      );
+
+      return {
+        headSha: mergeRequest.sha,
+        baseRef: mergeRequest.target_branch,
+        open: mergeRequest.state === 'opened',
+      };
+    } catch (error) {
+      this.logger.error(`Failed to get MR: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error('Failed to fetch merge request');
+    }
+  }
+
+  async getDiff(repository: RepoRef, mergeRequestIid: number): Promise<ParsedDiff> {
+    try {
+      const diffs = await this.paginate<GitlabDiff>(`${this.projectPath(repository)}/merge_requests/${mergeRequestIid}/diffs`);
+      return parseUnifiedDiff(toUnifiedDiff(diffs));
+    } catch (error) {
+      this.logger.error(`Failed to get MR diff: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error('Failed to fetch merge request diff');
+    }
+  }
+
+  async getCompareDiff(repository: RepoRef, baseSha: string, headSha: string): Promise<ParsedDiff> {
+    try {
+      const query = new URLSearchParams({ from: baseSha, to: headSha });
+      const response = await this.request<{ diffs: GitlabDiff[] }>('GET', `${this.projectPath(repository)}/repository/compare?${query}`);
+      return parseUnifiedDiff(toUnifiedDiff(response.diffs));
+    } catch (error) {
+      this.logger.error(`Failed to get compare diff: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error('Failed to fetch compare diff');
+    }
+  }
+
+  async isAncestor(repository: RepoRef, ancestorSha: string, headSha: string): Promise<boolean> {
+    try {
+      const query = new URLSearchParams([['refs[]', ancestorSha], ['refs[]', headSha]]);
+      const mergeBase = await this.request<{ id: string }>('GET', `${this.projectPath(repository)}/repository/merge_base?${query}`);
+      return mergeBase.id === ancestorSha;
+    } catch (error) {
+      // Unknown commits (e.g. garbage collected after a force push) are not ancestors
+      return false;
+    }
+  }
+
+  async getMergeBase(repository: RepoRef, baseRef: string, headSha: string): Promise<string | null> {
+    try {
+      const query = new URLSearchParams([['refs[]', baseRef], ['refs[]', headSha]]);
+      const mergeBase = await this.request<{ id: string }>('GET', `${this.projectPath(repository)}/repository/merge_base?${query}`);
+      return mergeBase.id;
+    } catch (error) {
+      this.logger.warn(`Failed to find the merge base of ${baseRef} and ${headSha}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return null;
+    }
+  }
+
+  async getFileContent(repository: RepoRef, path: string, ref: string): Promise<string | null> {
+    try {
+      const response = await this.send(
+        'GET',
+        `${this.projectPath(repository)}/repository/files/${encodeURIComponent(path)}/raw?${new URLSearchParams({ ref })}`,
+      );
+      return await response.text();
+    } catch (error) {
+      if (error instanceof GitlabRequestError && error.status === 404) {
+        return null;
+      }
+      this.logger.error(`Failed to get file content: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error('Failed to fetch file content');
+    }
+  }
+
+  /**
+   * Posts each finding as a diff discussion. GitLab has no batched reviews,
+   * so discussions it rejects are counted as failed and the rest still post.
+   */
+  async postInlineComments(repository: RepoRef, mergeRequestIid: number, review: ReviewToPublish): Promise<PublishedReview> {
+    const path = `${this.projectPath(repository)}/merge_requests/${mergeRequestIid}`;
+    const { diff_refs: diffRefs } = await this.request<{ diff_refs: DiffRefs }>('GET', path);
+    const diff = await this.getDiff(repository, mergeRequestIid);
+
+    // Thread state is only synced on GitHub, so no comment ids are kept
+    const result: PublishedReview = { commentIds: new Map(), posted: 0, postedFindingIds: [], skipped: 0, failed: [] };
+
+    for (const finding of review.findings) {
+      const discussion = this.toDiscussion(finding, diff, diffRefs);
+      if (!discussion) {
+        result.skipped++;
+        continue;
+      }
+
+      try {
+        await this.request('POST', `${path}/discussions`, discussion);
+        result.posted++;
+        if (finding.findingId) result.postedFindingIds.push(finding.findingId);
+      } catch (error) {
+        const rejected = error instanceof GitlabRequestError && (error.status === 400 || error.status === 422);
+        // Nothing is on the merge request yet, so the job can safely be retried
+        if (!rejected && result.posted === 0) {
+          this.logger.error(`Failed to post discussion: ${error instanceof Error ? error.message : 'Unknown error'}`);
+          throw new Error('Failed to post merge request discussions');
+        }
+        result.failed.push(finding);
+      }
+    }
+
+    this.logger.log(`Posted ${result.posted} discussions on ${repository.owner}/${repository.repo}!${mergeRequestIid}${result.failed.length > 0 ? `; ${result.failed.length} failed` : ''}`);
+
+    return result;
+  }
+
+  async postSummary(repository: RepoRef, mergeRequestIid: number, report: SummaryReport): Promise<void> {
+    const path = `${this.projectPath(repository)}/merge_requests/${mergeRequestIid}/notes`;
+
+    try {
+      const notes = await this.paginate<GitlabNote>(`${path}?sort=asc`);
+      const existing = notes.find(note => !note.system && note.body.includes(SUMMARY_MARKER));
+      const body = formatSummaryComment(report);
+
+      if (existing) {
+        await this.request('PUT', `${path}/${existing.id}`, { body });
+      } else {
+        await this.request('POST', path, { body });
+      }
+    } catch (error) {
+      this.logger.error(`Failed to post summary: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error('Failed to post merge request summary');
+    }
+  }
+
+  async postComment(repository: RepoRef, mergeRequestIid: number, body: string): Promise<void> {
+    try {
+      await this.request('POST', `${this.projectPath(repository)}/merge_requests/${mergeRequestIid}/notes`, { body });
+    } catch (error) {
+      this.logger.error(`Failed to post comment: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error('Failed to post comment');
+    }
+  }
+
+  async setStatus(repository: RepoRef, sha: string, status: ScmStatus): Promise<void> {
+    const { state, description } = status.state === 'completed'
+      ? { state: CONCLUSION_STATES[status.conclusion], description: status.title }
+      : status.state === 'queued'
+        ? { state: 'pending' as const, description: 'Review queued' }
+        : { state: 'running' as const, description: 'Review in progress' };
+
+    try {
+      await this.request('POST', `${this.projectPath(repository)}/statuses/${sha}`, {
+        state,
+        name: STATUS_NAME,
+        description: description.substring(0, MAX_STATUS_DESCRIPTION_LENGTH),
+      });
+    } catch (error) {
+      this.logger.error(`Failed to set commit status: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error('Failed to set commit status');
+    }
+  }
+
+  /**
+   * The discussion for a finding, anchored on its line in the diff, or
+   * undefined when the line is not part of the diff
+   */
+  private toDiscussion(finding: ReviewFinding, diff: ParsedDiff, diffRefs: DiffRefs): object | undefined {
+    if (!finding.filePath || !finding.line) return undefined;
+
+    const file = findDiffFile(diff, finding.filePath);
+    if (!file) return undefined;
+
+    // Suggestions are anchored on their last line and reach back to the first
+    const { replacement } = finding;
+    const suggestible = replacement && findNewLine(file, replacement.startLine) && findNewLine(file, replacement.endLine);
+    const lineNumber = suggestible ? replacement.endLine : finding.line;
+    const line = findNewLine(file, lineNumber);
+    if (!line) return undefined;
+
+    return {
+      body: formatFindingComment(
+        finding,
+        suggestible ? fencedBlock(`suggestion:-${replacement.endLine - replacement.startLine}+0`, replacement.code) : undefined,
+      ),
+      position: {
+        position_type: 'text',
+        base_sha: diffRefs.base_sha,
+        start_sha: diffRefs.start_sha,
+        head_sha: diffRefs.head_sha,
+        old_path: file.oldPath ?? file.path,
+        new_path: file.newPath ?? file.path,
+        new_line: lineNumber,
+        // Unchanged lines are identified by both sides
+        ...(line.type === 'context' && { old_line: line.oldLineNumber }),
+      },
+    };
+  }
+
+  private projectPath(repository: RepoRef): string {
+    return `/projects/${encodeURIComponent(`${repository.owner}/${repository.repo}`)}`;
+  }
+
+  private async request<T = unknown>(method: string, path: string, body?: object): Promise<T> {
+    const response = await this.send(method, path, body);
+    return (await response.json()) as T;
+  }
+
+  /** Follows `X-Next-Page` through every page of a list endpoint */
+  private async paginate<T>(path: string): Promise<T[]> {
+    const items: T[] = [];
+    let page = '1';
+
+    while (page) {
+      const separator = path.includes('?') ? '&' : '?';
+      const response = await this.send('GET', `${path}${separator}per_page=100&page=${page}`);
+      items.push(...((await response.json()) as T[]));
+      page = response.headers.get('x-next-page') ?? '';
+    }
+
+    return items;
+  }
+
+  /** Sends a request, waiting out rate limits; throws on any other error status */
+  private async send(method: string, path: string, body?: object): Promise<Response> {
+    const { url, token } = this.configService.get('gitlab', { infer: true });
+
+    for (let attempt = 0; ; attempt++) {
+      const response = await fetch(`${url}/api/v4${path}`, {
+        method,
+        headers: {
+          'PRIVATE-TOKEN': token,
+          ...(body && { 'Content-Type': 'application/json' }),
+        },
+        body: body && JSON.stringify(body),
+      });
+
+      if (response.ok) {
+        return response;
+      }
+
+      const retryAfter = Number(response.headers.get('retry-after')) * 1000 || 1000 * 2 ** attempt;
+      if (response.status === 429 && attempt < MAX_RATE_LIMIT_RETRIES && retryAfter <= MAX_RATE_LIMIT_WAIT_MS) {
+        this.logger.warn(`GitLab rate limit hit on ${method} ${path}, retrying in ${Math.ceil(retryAfter / 1000)}s`);
+        await new Promise(resolve => setTimeout(resolve, retryAfter));
+        continue;
+      }
+
+      throw new GitlabRequestError(`GitLab API ${method} ${path} failed with ${response.status}`, response.status);
+    }
+  }
+}
+
+/** Rebuilds a git unified diff from GitLab's per-file diffs */
+function toUnifiedDiff(diffs: GitlabDiff[]): string {
+  return diffs.map(file => {
+    const lines = [`diff --git a/${file.old_path} b/${file.new_path}`];
+
+    if (file.new_file) lines.push('new file mode 100644');
+    if (file.deleted_file) lines.push('deleted file mode 100644');
+    if (file.renamed_file) lines.push(`rename from ${file.old_path}`, `rename to ${file.new_path}`);
+
+    lines.push(
+      `--- ${file.new_file ? '/dev/null' : `a/${file.old_path}`}`,
+      `+++ ${file.deleted_file ? '/dev/null' : `b/${file.new_path}`}`,
+    );
+    if (file.diff) lines.push(file.diff.replace(/\n$/, ''));
+
+    return lines.join('\n');
+  }).join('\n');
+}
+
+/** The diff line showing a new-side line number, if it is part of the diff */
+function findNewLine(file: DiffFile, lineNumber: number): DiffLine | undefined {
+  for (const hunk of file.hunks) {
+    const line = hunk.lines.find(candidate => candidate.type !== 'removed' && candidate.newLineNumber === lineNumber);
+    if (line) return line;
+  }
+  return undefined;
+}
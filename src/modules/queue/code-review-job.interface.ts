@@ -0,0 +1,27 @@
+import { ScmProviderName } from '../scm/scm-provider.interface';
+
+/** Queue job name for pull request reviews */
+export const CODE_REVIEW_JOB = 'analyze-pull-request';
+
+export interface CodeReviewJobData {
+  /** Defaults to GitHub for jobs queued before GitLab support */
+  provider?: ScmProviderName;
+  owner: string;
+  repo: string;
+  installationId?: number;
+  pullNumber: number;
+  headSha: string;
+  /** Base commit, or the target branch on GitLab; the review config is read from it */
+  baseSha: string;
+  /** Only review files matching these paths or globs */
+  paths?: string[];
+  /**
+   * `headSha` is not the pull request's head, e.g. an earlier commit
+   * requested through the API, so it is reviewed against the base
+   */
+  pinned?: boolean;
+  /** Analyze and store the findings without posting anything to the pull request */
+  dryRun?: boolean;
+  /** Review recorded by the first attempt; retries carry on with it */
+  reviewId?: string;
+}
@@ -1,9 +1,31 @@
 import { Processor, Process } from '@nestjs/bull';
 import { Injectable, Logger } from '@nestjs/common';
 import { Job } from 'bull';
+import { minimatch } from 'minimatch';
 import { CodeAnalysisService } from '../code-analysis/code-analysis.service';
-import { GithubService } from '../github/github.service';
+import { RepoRef } from '../github/github.service';
+import { ScmService } from '../scm/scm.service';
+import { PublishedReview, ReviewFinding, ScmProvider, ScmStatus } from '../scm/scm-provider.interface';
 import { DatabaseService } from '../database/database.service';
+import { ReviewConfigService } from '../review-config/review-config.service';
+import { QueueService } from './queue.service';
+import { CODE_REVIEW_JOB, CodeReviewJobData } from './code-review-job.interface';
+import { RepoReviewConfig } from '../review-config/review-config.interface';
+import { CodeIssue } from '../code-analysis/code-analysis.service';
+import { compareFindings, FindingChanges, isSameFinding } from '../code-analysis/finding-identity';
+import { Review, ReviewComment } from '../../entities';
+import { ParsedDiff } from '../../common/interfaces/diff.interface';
+import { formatConfigErrors } from '../scm/summary-comment';
+
+interface ReviewScope {
+  diff: ParsedDiff;
+  /** Set when only the commits since this previously reviewed commit are analyzed */
+  sinceSha?: string;
+  previousSummary?: string;
+}
+
+/** Thrown at a checkpoint when the job was cancelled, e.g. because the PR closed */
+class ReviewCancelledError extends Error {}
 
 @Injectable()
 @Processor('code-review')
@@ -12,68 +34,397 @@ export class CodeReviewProcessor {
 
   constructor(
     private readonly codeAnalysisService: CodeAnalysisService,
-    private readonly githubService: GithubService,
+    private readonly scmService: ScmService,
     private readonly databaseService: DatabaseService,
+    private readonly reviewConfigService: ReviewConfigService,
+    private readonly queueService: QueueService,
   ) {}
 
-  @Process('analyze-pull-request')
-  async handleCodeReview(job: Job) {
-    const { owner, repo, pullNumber, headSha, baseSha } = job.data;
+  @Process(CODE_REVIEW_JOB)
+  async handleCodeReview(job: Job<CodeReviewJobData>) {
+    const { provider, owner, repo, pullNumber, headSha, baseSha, installationId, paths, pinned, dryRun = false } = job.data;
+    const repository: RepoRef = { owner, repo, installationId };
+    const scm = this.scmService.get(provider);
 
-    this.logger.log(`Processing code review for ${owner}/${repo}#${pullNumber}`);
+    this.logger.log(`Processing ${scm.name} ${dryRun ? 'dry-run ' : ''}code review for ${owner}/${repo}#${pullNumber}`);
 
-    // Create a review record in the database
-    const review = await this.databaseService.createReview({
-      owner,
-      repo,
-      pullNumber,
-      commitSha: headSha,
-      summary: 'Processing...',
-    });
+    // Find the last completed review before this one is recorded
+    const lastReview = await this.databaseService.getLastCompletedReview(owner, repo, pullNumber, scm.name);
+
+    // Create a review record in the database. A retry reuses the failed
+    // attempt's record, keeping the findings it already posted
+    let review = job.data.reviewId ? await this.databaseService.resumeReview(job.data.reviewId) : null;
+    if (!review) {
+      review = await this.databaseService.createReview({
+        owner,
+        repo,
+        pullNumber,
+        commitSha: headSha,
+        summary: 'Processing...',
+        installationId,
+        provider: scm.name,
+        dryRun,
+        paths: paths && paths.length > 0 ? paths : undefined,
+      });
+      await job.update({ ...job.data, reviewId: review.id });
+    }
+    const reviewId = review.id;
+
+    let reportStatus = false;
 
     try {
+      // Load the repository's review settings from the base branch
+      const { config: reviewConfig, errors: configErrors } = await this.loadReviewConfig(scm, repository, baseSha);
+      const postReview = !dryRun && reviewConfig.output !== 'checks';
+
+      // Mirror the review's progress in a check run or commit status
+      reportStatus = !dryRun && reviewConfig.output !== 'review';
+      if (reportStatus) {
+        await this.setStatus(scm, repository, headSha, { state: 'queued' });
+      }
+
       // Update status to in_progress
-      await this.databaseService.updateReviewStatus(review.id, 'in_progress');
+      await this.databaseService.updateReviewStatus(reviewId, 'in_progress');
+      if (reportStatus) {
+        await this.setStatus(scm, repository, headSha, { state: 'in_progress' });
+      }
+
+      // Get the diff from GitHub - only the new commits when an earlier review
+      // covered the rest - limited to the configured paths
+      const scope = await this.resolveReviewScope(scm, repository, pullNumber, headSha, baseSha, lastReview, pinned);
+      const diff = this.restrictToPaths(this.reviewConfigService.filterDiff(scope.diff, reviewConfig), paths);
 
-      // Get the diff from GitHub
-      const diff = await this.githubService.getPullRequestDiff(owner, repo, pullNumber);
+      // Rules switched off in the config file or with `/ignore`
+      const disabledRules = [
+        ...Object.keys(reviewConfig.heuristics).filter(id => !reviewConfig.heuristics[id]),
+        ...(await this.databaseService.getSuppressedRules(owner, repo, scm.name)),
+      ];
 
       // Analyze the code changes
-      const analysis = await this.codeAnalysisService.analyzeCode(diff);
-
-      // Save comments to database
-      if (analysis.issues && analysis.issues.length > 0) {
-        await this.databaseService.addReviewComments(review.id, analysis.issues);
-
-        // Post review comments to GitHub
-        await this.githubService.postReviewComments(
-          owner,
-          repo,
-          pullNumber,
-          headSha,
-          analysis.issues,
-        );
+      const analysis = await this.codeAnalysisService.analyzeCode(diff, {
+        instructions: reviewConfig.instructions,
+        customRules: reviewConfig.customRules,
+        disabledRules,
+        loadFile: path => scm.getFileContent(repository, path, headSha),
+      });
+      const issues = this.reviewConfigService.filterIssues(analysis.issues, reviewConfig);
+
+      // Analysis is the slow part; don't post to a PR that closed meanwhile
+      await this.throwIfCancelled(job);
+
+      const previousFindings = await this.databaseService.getPreviousFindings(owner, repo, pullNumber, scm.name);
+      const postable = issues.filter(issue => this.reviewConfigService.shouldPost(issue, reviewConfig));
+
+      // Save comments to database, except those an earlier attempt of this
+      // job already stored and posted
+      const unsaved = this.excludePreviouslyReported(previousFindings.filter(comment => comment.reviewId === reviewId), issues);
+      let findings: ReviewFinding[] = [];
+      if (unsaved.length > 0) {
+        const saved = await this.databaseService.addReviewComments(reviewId, unsaved);
+        findings = unsaved.map((issue, index) => ({ ...issue, findingId: saved[index].id }));
       }
 
-      // Update review with final summary
-      await this.databaseService.updateReviewStatus(review.id, 'completed');
+      const summary = this.buildSummary(analysis.summary, scope, previousFindings);
+      const changes = await this.compareWithLastReview(lastReview, postable, diff, !scope.sinceSha && !paths?.length, reviewConfig);
+      // Findings open across the whole pull request, including those of
+      // earlier commits in files an incremental review did not cover
+      const openFindings = changes ? [...changes.added, ...changes.stillOpen] : postable;
 
-      // Post overall review summary to GitHub
-      await this.githubService.postReviewSummary(
-        owner,
-        repo,
-        pullNumber,
-        headSha,
-        analysis.summary,
-      );
+      // Post the inline comments as one review, skipping findings below the
+      // severity threshold and those already reported on unchanged code
+      let published: PublishedReview | undefined;
+      if (postReview) {
+        published = await scm.postInlineComments(repository, pullNumber, {
+          commitSha: headSha,
+          event: reviewConfig.reviewEvent,
+          findings: this.excludePreviouslyReported(previousFindings, findings)
+            .filter(issue => this.reviewConfigService.shouldPost(issue, reviewConfig)),
+        });
+
+        // Link stored findings to their GitHub comments for thread-state syncing
+        await this.databaseService.markFindingsPosted(published.postedFindingIds);
+        await this.databaseService.setGithubCommentIds(published.commentIds);
+
+        // Edit the pull request's summary comment rather than adding another
+        await scm.postSummary(repository, pullNumber, {
+          commitSha: headSha,
+          summary,
+          findings: openFindings,
+          positives: analysis.positives,
+          changes,
+          unposted: published.failed,
+          configErrors,
+        });
+      }
+
+      if (!dryRun) {
+        await this.uploadFindings(scm, repository, pullNumber, headSha, openFindings);
+      }
+
+      // Update review with final summary. Only this run's own summary is
+      // stored; the scope note and earlier summary are for display, and a
+      // later review nesting them again would grow with every push
+      await this.databaseService.completeReview(reviewId, analysis.summary, {
+        incremental: scope.sinceSha !== undefined,
+        sinceSha: scope.sinceSha,
+        // Carried forward so the next incremental review knows them
+        openFindings: openFindings.map(issue => this.toOpenFinding(issue)),
+        ...(published && {
+          postedComments: published.posted,
+          failedComments: published.failed.length,
+        }),
+      });
+
+      // The status gates on every postable finding of this commit
+      if (reportStatus) {
+        await this.setStatus(scm, repository, headSha, {
+          state: 'completed',
+          conclusion: this.reviewConfigService.checkConclusion(postable, reviewConfig),
+          title: postable.length > 0 ? `${postable.length} findings` : 'No findings',
+          summary: configErrors.length > 0 ? `${summary}\n\n${formatConfigErrors(configErrors)}` : summary,
+          issues: postable,
+        });
+      }
 
       this.logger.log(`Completed code review for ${owner}/${repo}#${pullNumber}`);
     } catch (error) {
-      // Mark review as failed
-      await this.databaseService.updateReviewStatus(review.id, 'failed');
+      if (error instanceof ReviewCancelledError) {
+        await this.databaseService.updateReviewStatus(reviewId, 'cancelled');
+        if (reportStatus) {
+          await this.setStatus(scm, repository, headSha, {
+            state: 'completed',
+            conclusion: 'cancelled',
+            title: 'Review cancelled',
+            summary: 'The review was cancelled before it completed.',
+          });
+        }
+        this.logger.log(`Cancelled code review for ${owner}/${repo}#${pullNumber}`);
+        return;
+      }
+
+      // Mark review as failed. A broken review must not block merging, so
+      // the status is neutral rather than failed
+      await this.databaseService.updateReviewStatus(reviewId, 'failed');
+      if (reportStatus) {
+        await this.setStatus(scm, repository, headSha, {
+          state: 'completed',
+          conclusion: 'neutral',
+          title: 'Review could not be completed',
+          summary: `The automated review failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        });
+      }
 
       this.logger.error(`Failed to process code review: ${error instanceof Error ? error.message : 'Unknown error'}`, error instanceof Error ? error.stack : undefined);
       throw error;
     }
   }
+
+  /** Status updates need a GitHub App on GitHub; failures never fail the review */
+  private async setStatus(scm: ScmProvider, repository: RepoRef, sha: string, status: ScmStatus): Promise<void> {
+    try {
+      await scm.setStatus(repository, sha, status);
+    } catch (error) {
+      this.logger.warn(`Failed to set ${status.state} status for ${repository.owner}/${repository.repo}@${sha.substring(0, 7)}`);
+    }
+  }
+
+  /** Uploading to a security dashboard is optional and never fails the review */
+  private async uploadFindings(
+    scm: ScmProvider,
+    repository: RepoRef,
+    pullNumber: number,
+    sha: string,
+    findings: CodeIssue[],
+  ): Promise<void> {
+    if (!scm.uploadFindings) return;
+
+    try {
+      await scm.uploadFindings(repository, pullNumber, sha, findings);
+    } catch (error) {
+      this.logger.warn(`Failed to upload findings for ${repository.owner}/${repository.repo}@${sha.substring(0, 7)}`);
+    }
+  }
+
+  private async throwIfCancelled(job: Job): Promise<void> {
+    if (await this.queueService.isCancelled(job)) {
+      throw new ReviewCancelledError();
+    }
+  }
+
+  /** Config problems are reported on the summary comment and check run */
+  private async loadReviewConfig(
+    scm: ScmProvider,
+    repository: RepoRef,
+    baseRef: string,
+  ): Promise<{ config: RepoReviewConfig; errors: string[] }> {
+    const { config, errors } = await this.reviewConfigService.loadConfig(path => scm.getFileContent(repository, path, baseRef));
+
+    if (errors.length > 0) {
+      this.logger.warn(`Invalid review config for ${repository.owner}/${repository.repo}: ${errors.join('; ')}`);
+    }
+
+    return { config, errors };
+  }
+
+  /**
+   * Reviews only the compare diff since the last completed review when its
+   * commit is still part of the branch and the branch has not merged in a
+   * newer base since; otherwise (first review, force push, rebase, base
+   * merged in) reviews the whole pull request, or the changes from `baseSha`
+   * to `headSha` when reviewing a pinned commit other than the pull
+   * request's head.
+   */
+  private async resolveReviewScope(
+    scm: ScmProvider,
+    repository: RepoRef,
+    pullNumber: number,
+    headSha: string,
+    baseSha: string,
+    lastReview: Review | null,
+    pinned?: boolean,
+  ): Promise<ReviewScope> {
+    if (
+      lastReview &&
+      lastReview.commitSha !== headSha &&
+      (await scm.isAncestor(repository, lastReview.commitSha, headSha)) &&
+      (await this.hasSameBase(scm, repository, baseSha, headSha, lastReview.commitSha))
+    ) {
+      this.logger.log(`Incremental review of ${repository.owner}/${repository.repo}#${pullNumber} since ${lastReview.commitSha}`);
+
+      return {
+        diff: await scm.getCompareDiff(repository, lastReview.commitSha, headSha),
+        sinceSha: lastReview.commitSha,
+        previousSummary: lastReview.summary,
+      };
+    }
+
+    if (pinned) {
+      return { diff: await scm.getCompareDiff(repository, baseSha, headSha) };
+    }
+
+    return { diff: await scm.getDiff(repository, pullNumber) };
+  }
+
+  /**
+   * Whether the branch still forks from the base at or before `reviewedSha`.
+   * After the base branch is merged in, the compare diff since `reviewedSha`
+   * would contain the base branch's changes.
+   */
+  private async hasSameBase(
+    scm: ScmProvider,
+    repository: RepoRef,
+    baseSha: string,
+    headSha: string,
+    reviewedSha: string,
+  ): Promise<boolean> {
+    const mergeBase = await scm.getMergeBase(repository, baseSha, headSha);
+    return mergeBase !== null && (await scm.isAncestor(repository, mergeBase, reviewedSha));
+  }
+
+  /** Limits the diff to files matching any of `paths`, e.g. from `/review src/app.ts` */
+  private restrictToPaths(diff: ParsedDiff, paths?: string[]): ParsedDiff {
+    if (!paths || paths.length === 0) {
+      return diff;
+    }
+
+    return {
+      ...diff,
+      files: diff.files.filter(file =>
+        paths.some(path => file.path === path || minimatch(file.path, path, { dot: true })),
+      ),
+    };
+  }
+
+  private buildSummary(analysisSummary: string, scope: ReviewScope, previousFindings: ReviewComment[]): string {
+    if (!scope.sinceSha) {
+      return analysisSummary;
+    }
+
+    const earlier = new Set(previousFindings.map(comment => `${comment.fingerprint}:${comment.contextHash}`)).size;
+    const sections = [
+      analysisSummary,
+      `**Scope:** this review covers the changes since \`${scope.sinceSha.substring(0, 7)}\`, the last reviewed commit. ${earlier} findings reported on earlier commits of this pull request are not repeated here.`,
+    ];
+
+    if (scope.previousSummary) {
+      sections.push(`<details>\n<summary>Summary of the earlier review</summary>\n\n${scope.previousSummary}\n</details>`);
+    }
+
+    return sections.join('\n\n');
+  }
+
+  /**
+   * New, fixed and still open findings relative to the findings open after
+   * the last completed review. A `complete` review covered every file of the
+   * pull request, so earlier findings it did not report again are fixed.
+   */
+  private async compareWithLastReview(
+    lastReview: Review | null,
+    postable: CodeIssue[],
+    diff: ParsedDiff,
+    complete: boolean,
+    reviewConfig: RepoReviewConfig,
+  ): Promise<(FindingChanges<CodeIssue> & { sinceSha: string }) | undefined> {
+    if (!lastReview) {
+      return undefined;
+    }
+
+    // Reviews before open findings were carried forward only have their own
+    const carried: CodeIssue[] | undefined = lastReview.metadata?.openFindings;
+    const previous = (carried ?? (await this.databaseService.getReviewFindings(lastReview.id)).map(comment => this.toIssue(comment)))
+      .filter(issue => this.reviewConfigService.shouldPost(issue, reviewConfig));
+
+    const analyzedPaths = new Set(diff.files.map(file => file.path));
+    if (complete) {
+      previous.forEach(issue => issue.filePath && analyzedPaths.add(issue.filePath));
+    }
+
+    return {
+      sinceSha: lastReview.commitSha,
+      ...compareFindings(previous, postable, analyzedPaths),
+    };
+  }
+
+  /** The fields of an open finding kept on the review for later comparisons */
+  private toOpenFinding(issue: CodeIssue): CodeIssue {
+    return {
+      type: issue.type,
+      severity: issue.severity,
+      message: issue.message,
+      suggestion: issue.suggestion,
+      filePath: issue.filePath,
+      line: issue.line,
+      ruleId: issue.ruleId,
+      fingerprint: issue.fingerprint,
+      contextHash: issue.contextHash,
+    };
+  }
+
+  private toIssue(comment: ReviewComment): CodeIssue {
+    return {
+      type: comment.issueType as CodeIssue['type'],
+      severity: comment.severity as CodeIssue['severity'],
+      message: comment.message,
+      suggestion: comment.suggestion,
+      // Findings without a file are stored under a placeholder path
+      filePath: comment.filePath === 'unknown' ? undefined : comment.filePath,
+      line: comment.lineNumber ?? undefined,
+      ruleId: comment.ruleId ?? undefined,
+      fingerprint: comment.fingerprint ?? undefined,
+      contextHash: comment.contextHash ?? undefined,
+    };
+  }
+
+  private excludePreviouslyReported<T extends CodeIssue>(previous: ReviewComment[], issues: T[]): T[] {
+    const fresh = issues.filter(issue => !previous.some(comment =>
+      comment.contextHash === issue.contextHash &&
+      isSameFinding(issue, { ...comment, type: comment.issueType }),
+    ));
+
+    if (fresh.length < issues.length) {
+      this.logger.log(`Suppressed ${issues.length - fresh.length} findings already reported on earlier commits`);
+    }
+
+    return fresh;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,81 @@
+import { Processor, Process } from '@nestjs/bull';
+import { Injectable, Logger } from '@nestjs/common';
+import { GithubService, RepoRef, ReviewThread } from '../github/github.service';
+import { DatabaseService } from '../database/database.service';
+import { ReviewComment } from '../../entities';
+
+/** Queue job name of the repeatable review-thread state sync */
+export const COMMENT_SYNC_JOB = 'sync-comment-status';
+
+// Threads of older reviews are no longer synced
+const SYNC_WINDOW_DAYS = 30;
+
+/**
+ * Updates the status of posted findings from the state of their GitHub
+ * review threads, so their precision can be measured.
+ */
+@Injectable()
+@Processor('code-review')
+export class CommentSyncProcessor {
+  private readonly logger = new Logger(CommentSyncProcessor.name);
+
+  constructor(
+    private readonly githubService: GithubService,
+    private readonly databaseService: DatabaseService,
+  ) {}
+
+  @Process(COMMENT_SYNC_JOB)
+  async syncCommentStatus() {
+    const since = new Date(Date.now() - SYNC_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+    const findings = await this.databaseService.getSyncableFindings(since);
+
+    // One thread listing per pull request
+    const byPullRequest = new Map<string, ReviewComment[]>();
+    for (const finding of findings) {
+      const { owner, repo, pullNumber } = finding.review;
+      const key = `${owner}/${repo}#${pullNumber}`;
+      byPullRequest.set(key, [...(byPullRequest.get(key) ?? []), finding]);
+    }
+
+    let updated = 0;
+    for (const [key, pullRequestFindings] of byPullRequest) {
+      try {
+        updated += await this.syncPullRequest(pullRequestFindings);
+      } catch (error) {
+        // Keep syncing other pull requests; this one is retried next run
+        this.logger.warn(`Failed to sync review threads of ${key}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    this.logger.log(`Synced ${findings.length} unresolved findings across ${byPullRequest.size} pull requests, ${updated} changed`);
+  }
+
+  private async syncPullRequest(findings: ReviewComment[]): Promise<number> {
+    const { owner, repo, pullNumber, installationId } = findings[0].review;
+    const repository: RepoRef = { owner, repo, installationId: installationId ?? undefined };
+
+    const threads = new Map<number, ReviewThread>();
+    for (const thread of await this.githubService.listReviewThreads(repository, pullNumber)) {
+      if (thread.rootCommentId !== undefined) threads.set(thread.rootCommentId, thread);
+    }
+
+    let updated = 0;
+    for (const finding of findings) {
+      const status = this.threadStatus(threads.get(finding.githubCommentId as number));
+      if (status !== finding.status) {
+        await this.databaseService.updateFindingStatus(finding.id, status);
+        updated++;
+      }
+    }
+
+    return updated;
+  }
+
+  private threadStatus(thread: ReviewThread | undefined): string {
+    // The comment was deleted, or its review dismissed and cleaned up
+    if (!thread) return 'dismissed';
+    if (thread.isResolved) return 'resolved';
+    if (thread.isOutdated) return 'outdated';
+    return 'open';
+  }
+}
@@ -2,9 +2,12 @@ import { Module } from '@nestjs/common';
 import { BullModule } from '@nestjs/bull';
 import { QueueService } from './queue.service';
 import { CodeReviewProcessor } from './code-review.processor';
+import { CommentSyncProcessor } from './comment-sync.processor';
 import { CodeAnalysisModule } from '../code-analysis/code-analysis.module';
 import { GithubModule } from '../github/github.module';
 import { DatabaseModule } from '../database/database.module';
+import { ReviewConfigModule } from '../review-config/review-config.module';
+import { ScmModule } from '../scm/scm.module';
 
 @Module({
   imports: [
@@ -14,8 +17,10 @@ import { DatabaseModule } from '../database/database.module';
     CodeAnalysisModule,
     GithubModule,
     DatabaseModule,
+    ReviewConfigModule,
+    ScmModule,
   ],
-  providers: [QueueService, CodeReviewProcessor],
+  providers: [QueueService, CodeReviewProcessor, CommentSyncProcessor],
   exports: [QueueService, BullModule],
 })
 export class QueueModule {}
\ No newline at end of file
@@ -1,23 +1,31 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { InjectQueue } from '@nestjs/bull';
-import { Queue } from 'bull';
+import { ConfigService } from '@nestjs/config';
+import { Job, Queue } from 'bull';
+import { COMMENT_SYNC_JOB } from './comment-sync.processor';
+import { CODE_REVIEW_JOB, CodeReviewJobData } from './code-review-job.interface';
+import { ScmProviderName } from '../scm/scm-provider.interface';
+import { AppConfig } from '../../common/interfaces/config.interface';
+
+// Cancellation markers outlive any realistic job run
+const CANCELLATION_TTL_SECONDS = 24 * 60 * 60;
 
 @Injectable()
-export class QueueService {
+export class QueueService implements OnModuleInit {
   private readonly logger = new Logger(QueueService.name);
 
   constructor(
     @InjectQueue('code-review') private codeReviewQueue: Queue,
+    private readonly configService: ConfigService<AppConfig, true>,
   ) {}
 
-  async addCodeReviewJob(data: {
-    owner: string;
-    repo: string;
-    pullNumber: number;
-    headSha: string;
-    baseSha: string;
-  }): Promise<void> {
-    await this.codeReviewQueue.add('analyze-pull-request', data, {
+  async onModuleInit(): Promise<void> {
+    await this.scheduleCommentSync();
+  }
+
+  /** Queues a review with the shared retry policy and returns the job id */
+  async addCodeReviewJob(data: CodeReviewJobData): Promise<string> {
+    const job = await this.codeReviewQueue.add(CODE_REVIEW_JOB, data, {
       attempts: 3,
       backoff: {
         type: 'exponential',
@@ -26,6 +34,47 @@ export class QueueService {
     });
 
     this.logger.log(`Added code review job for ${data.owner}/${data.repo}#${data.pullNumber}`);
+
+    return String(job.id);
+  }
+
+  /**
+   * Cancels review jobs for a pull request. Pending jobs are removed; active
+   * jobs cannot be interrupted, so they are marked and stop at their next
+   * checkpoint (see `isCancelled`). Returns the number of jobs cancelled.
+   */
+  async cancelPullRequestJobs(
+    owner: string,
+    repo: string,
+    pullNumber: number,
+    provider: ScmProviderName = 'github',
+  ): Promise<number> {
+    const jobs = await this.codeReviewQueue.getJobs(['waiting', 'delayed', 'paused', 'active']);
+    const matching = jobs.filter(job =>
+      job?.name === CODE_REVIEW_JOB &&
+      (job.data.provider ?? 'github') === provider &&
+      job.data.owner === owner &&
+      job.data.repo === repo &&
+      job.data.pullNumber === pullNumber,
+    );
+
+    for (const job of matching) {
+      if (await job.isActive()) {
+        await this.codeReviewQueue.client.set(this.cancellationKey(job), '1', 'EX', CANCELLATION_TTL_SECONDS);
+      } else {
+        await job.remove();
+      }
+    }
+
+    if (matching.length > 0) {
+      this.logger.log(`Cancelled ${matching.length} code review jobs for ${owner}/${repo}#${pullNumber}`);
+    }
+
+    return matching.length;
+  }
+
+  async isCancelled(job: Job): Promise<boolean> {
+    return (await this.codeReviewQueue.client.exists(this.cancellationKey(job))) === 1;
   }
 
   async getQueueStats(): Promise<any> {
@@ -41,4 +90,28 @@ export class QueueService {
       failed: failed.length,
     };
   }
+
+  /** (Re)schedules the repeatable review-thread state sync */
+  private async scheduleCommentSync(): Promise<void> {
+    const { commentSyncIntervalMinutes } = this.configService.get('github', { infer: true });
+
+    // Drop schedules left over from a different interval
+    for (const job of await this.codeReviewQueue.getRepeatableJobs()) {
+      if (job.name === COMMENT_SYNC_JOB) {
+        await this.codeReviewQueue.removeRepeatableByKey(job.key);
+      }
+    }
+
+    if (commentSyncIntervalMinutes > 0) {
+      await this.codeReviewQueue.add(COMMENT_SYNC_JOB, {}, {
+        repeat: { every: commentSyncIntervalMinutes * 60 * 1000 },
+        removeOnComplete: true,
+      });
+      this.logger.log(`Syncing review thread state every ${commentSyncIntervalMinutes} minutes`);
+    }
+  }
+
+  private cancellationKey(job: Job): string {
+    return `${this.codeReviewQueue.name}:cancelled:${job.id}`;
+  }
 }
\ No newline at end of file
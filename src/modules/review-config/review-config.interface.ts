@@ -0,0 +1,43 @@
+import type { CodeIssue } from '../code-analysis/code-analysis.service';
+import type { ReviewEvent } from '../github/github.service';
+import type { ReviewRule } from '../code-analysis/rules/rule.interface';
+
+export const REVIEW_CONFIG_PATH = '.lintelligence.yml';
+
+export const REVIEW_OUTPUTS = ['review', 'checks', 'both'] as const;
+/** Pull request review comments, a check run with annotations, or both */
+export type ReviewOutput = typeof REVIEW_OUTPUTS[number];
+
+/**
+ * Per-repository review settings, read from `.lintelligence.yml` on the
+ * pull request's base branch.
+ */
+export interface RepoReviewConfig {
+  paths: {
+    /** Globs of files to review; empty means every file */
+    include: string[];
+    exclude: string[];
+  };
+  /** Issue types kept in the results; the rest are discarded */
+  issueTypes: CodeIssue['type'][];
+  /** Findings below this severity are stored but not posted */
+  minSeverity: CodeIssue['severity'];
+  /** Extra reviewer instructions appended to the analysis prompt */
+  instructions?: string;
+  /** Rule id -> enabled, for built-in and custom rules */
+  heuristics: Record<string, boolean>;
+  /** Repository-specific rules run alongside the built-in packs */
+  customRules: ReviewRule[];
+  reviewEvent: ReviewEvent;
+  output: ReviewOutput;
+  /** The check run fails when a posted finding reaches this severity */
+  failOnSeverity: CodeIssue['severity'];
+}
+
+export interface LoadedReviewConfig {
+  config: RepoReviewConfig;
+  /** Whether the repository has a config file at all */
+  found: boolean;
+  /** Validation problems; invalid settings fall back to their defaults */
+  errors: string[];
+}
@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { ReviewConfigService } from './review-config.service';
+
+@Module({
+  providers: [ReviewConfigService],
+  exports: [ReviewConfigService],
+})
+export class ReviewConfigModule {}
@@ -0,0 +1,121 @@
+import { ReviewConfigService } from './review-config.service';
+
+describe('ReviewConfigService', () => {
+  const service = new ReviewConfigService();
+
+  describe('parseConfig', () => {
+    it('reads every setting', () => {
+      const { config, errors } = service.parseConfig([
+        'paths:',
+        '  include: ["src/**"]',
+        '  exclude: ["**/*.spec.ts"]',
+        'issueTypes: [bug, security]',
+        'minSeverity: medium',
+        'instructions: "  Prefer async/await  "',
+        'reviewEvent: COMMENT',
+        'output: checks',
+        'failOnSeverity: critical',
+      ].join('\n'));
+
+      expect(errors).toEqual([]);
+      expect(config).toMatchObject({
+        paths: { include: ['src/**'], exclude: ['**/*.spec.ts'] },
+        issueTypes: ['bug', 'security'],
+        minSeverity: 'medium',
+        instructions: 'Prefer async/await',
+        reviewEvent: 'COMMENT',
+        output: 'checks',
+        failOnSeverity: 'critical',
+      });
+    });
+
+    it('uses the defaults for an empty file', () => {
+      expect(service.parseConfig('')).toEqual({ config: ReviewConfigService.defaults(), errors: [] });
+    });
+
+    it('reports unknown settings', () => {
+      const { config, errors } = service.parseConfig('minSeverity: high\nseverity: low\n');
+
+      expect(errors).toEqual(['Unknown setting `severity`']);
+      expect(config.minSeverity).toBe('high');
+    });
+
+    it('falls back to the default of each invalid setting and reports it', () => {
+      const { config, errors } = service.parseConfig([
+        'paths: [src]',
+        'issueTypes: [bug, typo]',
+        'minSeverity: urgent',
+        'instructions: 42',
+        'reviewEvent: APPROVE',
+        'output: email',
+        'failOnSeverity: 3',
+      ].join('\n'));
+      const defaults = ReviewConfigService.defaults();
+
+      expect(config).toEqual(defaults);
+      expect(errors).toEqual([
+        '`paths` must be a mapping with `include` and/or `exclude`',
+        '`issueTypes` must be a list of: bug, security, performance, style, best-practice',
+        '`minSeverity` must be one of: low, medium, high, critical',
+        '`instructions` must be a string',
+        '`reviewEvent` must be one of: REQUEST_CHANGES, COMMENT',
+        '`output` must be one of: review, checks, both',
+        '`failOnSeverity` must be one of: low, medium, high, critical',
+      ]);
+    });
+
+    it('reports invalid YAML and a file that is not a mapping', () => {
+      expect(service.parseConfig('paths: [').errors[0]).toMatch(/^Invalid YAML: /);
+      expect(service.parseConfig('- bug').errors).toEqual(['The config file must be a YAML mapping']);
+    });
+
+    it('expands legacy heuristic ids to the rules that took over from them', () => {
+      const { config, errors } = service.parseConfig('heuristics:\n  console-log: false\n  unhandled-await: false\n');
+
+      expect(errors).toEqual([]);
+      expect(config.heuristics).toEqual({ 'best-practice/console-log': false, 'ast/unhandled-await': false });
+    });
+
+    it('expands the legacy security id to every security rule', () => {
+      const { config } = service.parseConfig('heuristics:\n  security-risk: false\n');
+
+      expect(Object.keys(config.heuristics)).toContain('security/eval');
+      expect(Object.values(config.heuristics).every(enabled => enabled === false)).toBe(true);
+    });
+
+    it('drops heuristics naming unknown rules, but keeps custom rule ids', () => {
+      const { config, errors } = service.parseConfig([
+        'heuristics:',
+        '  no-moment: false',
+        '  no-such-rule: false',
+        'customRules:',
+        '  - id: no-moment',
+        '    pattern: "from .moment."',
+        '    message: Use date-fns',
+        '    severity: low',
+        '    type: best-practice',
+      ].join('\n'));
+
+      expect(config.heuristics).toEqual({ 'no-moment': false });
+      expect(errors).toEqual(['`heuristics` names unknown rule `no-such-rule`']);
+    });
+
+    it('rejects heuristics that are not booleans', () => {
+      const { config, errors } = service.parseConfig('heuristics:\n  console-log: off\n');
+
+      expect(config.heuristics).toEqual({});
+      expect(errors).toEqual(['`heuristics` must map rule ids to true/false']);
+    });
+  });
+
+  describe('shouldPost', () => {
+    it('posts configured issue types at or above the minimum severity', () => {
+      const config = { ...ReviewConfigService.defaults(), minSeverity: 'medium' as const };
+      const issue = { type: 'bug' as const, severity: 'medium' as const, message: '', suggestion: '' };
+
+      expect(service.shouldPost(issue, config)).toBe(true);
+      expect(service.shouldPost({ ...issue, severity: 'low' }, config)).toBe(false);
+      expect(service.shouldPost({ ...issue, type: 'style' }, config)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,233 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { parse as parseYaml } from 'yaml';
+import { minimatch } from 'minimatch';
+import { CodeIssue } from '../code-analysis/code-analysis.service';
+import { ISSUE_TYPES, SEVERITIES } from '../code-analysis/analysis-schema';
+import { parseRuleDefinition } from '../code-analysis/rules/rule-definition';
+import { isBuiltinRuleId, LEGACY_RULE_IDS } from '../code-analysis/rules/builtin-rules';
+import { ParsedDiff } from '../../common/interfaces/diff.interface';
+import {
+  LoadedReviewConfig,
+  REVIEW_CONFIG_PATH,
+  REVIEW_OUTPUTS,
+  RepoReviewConfig,
+} from './review-config.interface';
+
+const REVIEW_EVENTS = ['REQUEST_CHANGES', 'COMMENT'] as const;
+
+@Injectable()
+export class ReviewConfigService {
+  private readonly logger = new Logger(ReviewConfigService.name);
+
+  static defaults(): RepoReviewConfig {
+    return {
+      paths: { include: [], exclude: [] },
+      issueTypes: ISSUE_TYPES.filter(type => type !== 'style'),
+      minSeverity: 'low',
+      heuristics: {},
+      customRules: [],
+      reviewEvent: 'REQUEST_CHANGES',
+      output: 'review',
+      failOnSeverity: 'high',
+    };
+  }
+
+  /** Reads the config file through `readFile`, which returns null when it does not exist */
+  async loadConfig(readFile: (path: string) => Promise<string | null>): Promise<LoadedReviewConfig> {
+    let content: string | null;
+
+    try {
+      content = await readFile(REVIEW_CONFIG_PATH);
+    } catch (error) {
+      this.logger.warn(`Could not read ${REVIEW_CONFIG_PATH}, using defaults`);
+      return { config: ReviewConfigService.defaults(), found: false, errors: [] };
+    }
+
+    if (content === null) {
+      return { config: ReviewConfigService.defaults(), found: false, errors: [] };
+    }
+
+    return { ...this.parseConfig(content), found: true };
+  }
+
+  parseConfig(content: string): Omit<LoadedReviewConfig, 'found'> {
+    const config = ReviewConfigService.defaults();
+    const errors: string[] = [];
+    let raw: unknown;
+
+    try {
+      raw = parseYaml(content);
+    } catch (error) {
+      errors.push(`Invalid YAML: ${error instanceof Error ? error.message.split('\n')[0] : 'Unknown error'}`);
+      return { config, errors };
+    }
+
+    if (raw === null || raw === undefined) {
+      return { config, errors };
+    }
+    if (!isRecord(raw)) {
+      errors.push('The config file must be a YAML mapping');
+      return { config, errors };
+    }
+
+    const known = [
+      'paths', 'issueTypes', 'minSeverity', 'instructions', 'heuristics', 'customRules', 'reviewEvent', 'output', 'failOnSeverity',
+    ];
+    for (const key of Object.keys(raw)) {
+      if (!known.includes(key)) errors.push(`Unknown setting \`${key}\``);
+    }
+
+    if (raw.paths !== undefined) {
+      if (!isRecord(raw.paths)) {
+        errors.push('`paths` must be a mapping with `include` and/or `exclude`');
+      } else {
+        config.paths.include = this.readGlobs(raw.paths.include, 'paths.include', errors);
+        config.paths.exclude = this.readGlobs(raw.paths.exclude, 'paths.exclude', errors);
+      }
+    }
+
+    if (raw.issueTypes !== undefined) {
+      const types = Array.isArray(raw.issueTypes) ? raw.issueTypes : [];
+      const invalid = types.filter(type => !(ISSUE_TYPES as unknown[]).includes(type));
+      if (!Array.isArray(raw.issueTypes) || invalid.length > 0) {
+        errors.push(`\`issueTypes\` must be a list of: ${ISSUE_TYPES.join(', ')}`);
+      } else {
+        config.issueTypes = types as CodeIssue['type'][];
+      }
+    }
+
+    if (raw.minSeverity !== undefined) {
+      if (!(SEVERITIES as unknown[]).includes(raw.minSeverity)) {
+        errors.push(`\`minSeverity\` must be one of: ${SEVERITIES.join(', ')}`);
+      } else {
+        config.minSeverity = raw.minSeverity as CodeIssue['severity'];
+      }
+    }
+
+    if (raw.instructions !== undefined) {
+      if (typeof raw.instructions !== 'string') {
+        errors.push('`instructions` must be a string');
+      } else if (raw.instructions.trim()) {
+        config.instructions = raw.instructions.trim();
+      }
+    }
+
+    if (raw.heuristics !== undefined) {
+      if (!isRecord(raw.heuristics) || Object.values(raw.heuristics).some(v => typeof v !== 'boolean')) {
+        errors.push('`heuristics` must map rule ids to true/false');
+      } else {
+        config.heuristics = this.expandLegacyRuleIds(raw.heuristics as Record<string, boolean>);
+      }
+    }
+
+    if (raw.customRules !== undefined) {
+      if (!Array.isArray(raw.customRules)) {
+        errors.push('`customRules` must be a list of rule definitions');
+      } else {
+        raw.customRules.forEach((definition, index) => {
+          const { rule, errors: ruleErrors } = parseRuleDefinition(definition);
+          if (rule) {
+            config.customRules.push(rule);
+          } else {
+            errors.push(`\`customRules[${index}]\` was skipped: ${ruleErrors.join(', ')}`);
+          }
+        });
+      }
+    }
+
+    // Checked once the repository's own rule ids are known
+    const customIds = new Set(config.customRules.map(rule => rule.id));
+    for (const id of Object.keys(config.heuristics)) {
+      if (!isBuiltinRuleId(id) && !customIds.has(id)) {
+        errors.push(`\`heuristics\` names unknown rule \`${id}\``);
+        delete config.heuristics[id];
+      }
+    }
+
+    if (raw.reviewEvent !== undefined) {
+      if (!(REVIEW_EVENTS as readonly unknown[]).includes(raw.reviewEvent)) {
+        errors.push(`\`reviewEvent\` must be one of: ${REVIEW_EVENTS.join(', ')}`);
+      } else {
+        config.reviewEvent = raw.reviewEvent as RepoReviewConfig['reviewEvent'];
+      }
+    }
+
+    if (raw.output !== undefined) {
+      if (!(REVIEW_OUTPUTS as readonly unknown[]).includes(raw.output)) {
+        errors.push(`\`output\` must be one of: ${REVIEW_OUTPUTS.join(', ')}`);
+      } else {
+        config.output = raw.output as RepoReviewConfig['output'];
+      }
+    }
+
+    if (raw.failOnSeverity !== undefined) {
+      if (!(SEVERITIES as unknown[]).includes(raw.failOnSeverity)) {
+        errors.push(`\`failOnSeverity\` must be one of: ${SEVERITIES.join(', ')}`);
+      } else {
+        config.failOnSeverity = raw.failOnSeverity as CodeIssue['severity'];
+      }
+    }
+
+    return { config, errors };
+  }
+
+  isPathIncluded(config: RepoReviewConfig, path: string): boolean {
+    const { include, exclude } = config.paths;
+    const matches = (pattern: string) => minimatch(path, pattern, { dot: true });
+
+    if (include.length > 0 && !include.some(matches)) return false;
+    return !exclude.some(matches);
+  }
+
+  filterDiff(diff: ParsedDiff, config: RepoReviewConfig): ParsedDiff {
+    return {
+      ...diff,
+      files: diff.files.filter(file => this.isPathIncluded(config, file.path)),
+    };
+  }
+
+  /** Drops issues whose file is excluded */
+  filterIssues(issues: CodeIssue[], config: RepoReviewConfig): CodeIssue[] {
+    return issues.filter(issue => !issue.filePath || this.isPathIncluded(config, issue.filePath));
+  }
+
+  /** Issues of other types or below the severity threshold are stored but not posted */
+  shouldPost(issue: CodeIssue, config: RepoReviewConfig): boolean {
+    return (
+      config.issueTypes.includes(issue.type) &&
+      SEVERITIES.indexOf(issue.severity) >= SEVERITIES.indexOf(config.minSeverity)
+    );
+  }
+
+  /** Conclusion of the check run for the posted findings */
+  checkConclusion(issues: CodeIssue[], config: RepoReviewConfig): 'success' | 'failure' {
+    const threshold = SEVERITIES.indexOf(config.failOnSeverity);
+    return issues.some(issue => SEVERITIES.indexOf(issue.severity) >= threshold) ? 'failure' : 'success';
+  }
+
+  /** Replaces ids of the former heuristic checks with the rules that took over from them */
+  private expandLegacyRuleIds(heuristics: Record<string, boolean>): Record<string, boolean> {
+    const expanded: Record<string, boolean> = {};
+
+    for (const [id, enabled] of Object.entries(heuristics)) {
+      for (const ruleId of LEGACY_RULE_IDS[id] ?? [id]) {
+        expanded[ruleId] = enabled;
+      }
+    }
+
+    return expanded;
+  }
+
+  private readGlobs(value: unknown, name: string, errors: string[]): string[] {
+    if (value === undefined) return [];
+    if (!Array.isArray(value) || value.some(v => typeof v !== 'string')) {
+      errors.push(`\`${name}\` must be a list of glob patterns`);
+      return [];
+    }
+    return value;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
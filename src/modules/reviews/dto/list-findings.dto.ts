@@ -0,0 +1,25 @@
+import { IsIn, IsOptional, IsString } from 'class-validator';
+import { CodeIssue } from '../../code-analysis/code-analysis.service';
+import { ISSUE_TYPES, SEVERITIES } from '../../code-analysis/analysis-schema';
+
+export const FINDING_STATUSES = ['open', 'resolved', 'outdated', 'dismissed'];
+
+export class ListFindingsDto {
+  @IsOptional()
+  @IsIn(SEVERITIES)
+  severity?: CodeIssue['severity'];
+
+  @IsOptional()
+  @IsIn(ISSUE_TYPES)
+  type?: CodeIssue['type'];
+
+  /** State of the finding's review thread */
+  @IsOptional()
+  @IsIn(FINDING_STATUSES)
+  status?: string;
+
+  /** File path or glob, e.g. `src/api/**` */
+  @IsOptional()
+  @IsString()
+  file?: string;
+}
@@ -0,0 +1,54 @@
+import { Type } from 'class-transformer';
+import { IsDate, IsIn, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import { SCM_PROVIDERS, ScmProviderName } from '../../scm/scm-provider.interface';
+
+export const REVIEW_STATUSES = ['pending', 'in_progress', 'completed', 'failed', 'cancelled'];
+
+export class ListReviewsDto {
+  @IsOptional()
+  @IsIn(SCM_PROVIDERS)
+  provider?: ScmProviderName;
+
+  @IsOptional()
+  @IsString()
+  owner?: string;
+
+  @IsOptional()
+  @IsString()
+  repo?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  pullNumber?: number;
+
+  @IsOptional()
+  @IsIn(REVIEW_STATUSES)
+  status?: string;
+
+  /** ISO date or timestamp; reviews created at or after it */
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  since?: Date;
+
+  /** ISO date or timestamp; reviews created before it */
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  until?: Date;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit: number = 20;
+}
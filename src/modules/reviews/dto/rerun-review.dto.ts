@@ -0,0 +1,8 @@
+import { IsBoolean, IsOptional } from 'class-validator';
+
+export class RerunReviewDto {
+  /** Defaults to the mode of the review being re-run */
+  @IsOptional()
+  @IsBoolean()
+  dryRun?: boolean;
+}
@@ -0,0 +1,39 @@
+import { ArrayMaxSize, IsArray, IsBoolean, IsIn, IsInt, IsNotEmpty, IsOptional, IsString, Matches, Min } from 'class-validator';
+import { SCM_PROVIDERS, ScmProviderName } from '../../scm/scm-provider.interface';
+
+export class TriggerReviewDto {
+  @IsOptional()
+  @IsIn(SCM_PROVIDERS)
+  provider: ScmProviderName = 'github';
+
+  /** GitHub owner, or GitLab namespace including subgroups */
+  @IsString()
+  @IsNotEmpty()
+  owner!: string;
+
+  @IsString()
+  @IsNotEmpty()
+  repo!: string;
+
+  /** Pull request number, or merge request iid on GitLab */
+  @IsInt()
+  @Min(1)
+  pullNumber!: number;
+
+  /** Commit to review; defaults to the pull request's head */
+  @IsOptional()
+  @Matches(/^[0-9a-f]{40}$/i, { message: 'sha must be a full 40-character commit SHA' })
+  sha?: string;
+
+  /** Only review files matching these paths or globs */
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(100)
+  @IsString({ each: true })
+  paths?: string[];
+
+  /** Store the findings without posting anything to the pull request */
+  @IsOptional()
+  @IsBoolean()
+  dryRun?: boolean;
+}
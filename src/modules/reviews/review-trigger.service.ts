@@ -0,0 +1,108 @@
+import { BadRequestException, ConflictException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { DatabaseService } from '../database/database.service';
+import { QueueService } from '../queue/queue.service';
+import { ScmService } from '../scm/scm.service';
+import { ScmProviderName, ScmPullRequest } from '../scm/scm-provider.interface';
+import { CodeReviewJobData } from '../queue/code-review-job.interface';
+
+export interface ReviewRequest {
+  provider: ScmProviderName;
+  owner: string;
+  repo: string;
+  pullNumber: number;
+  /** Defaults to the pull request's head */
+  sha?: string;
+  paths?: string[];
+  dryRun?: boolean;
+  installationId?: number;
+}
+
+export interface QueuedReview extends CodeReviewJobData {
+  jobId: string;
+}
+
+/**
+ * Queues reviews requested through the API, with the same retry policy as
+ * reviews triggered by webhooks.
+ */
+@Injectable()
+export class ReviewTriggerService {
+  private readonly logger = new Logger(ReviewTriggerService.name);
+
+  constructor(
+    private readonly scmService: ScmService,
+    private readonly queueService: QueueService,
+    private readonly databaseService: DatabaseService,
+  ) {}
+
+  async trigger(request: ReviewRequest): Promise<QueuedReview> {
+    const { provider, owner, repo, pullNumber } = request;
+    const pullRequest = await this.loadOpenPullRequest(request);
+    const headSha = request.sha ?? pullRequest.headSha;
+
+    // A pinned commit must belong to the pull request, not just the repository
+    if (headSha !== pullRequest.headSha && !(await this.isOnPullRequest(request, headSha, pullRequest))) {
+      throw new BadRequestException(`${headSha} is not part of ${owner}/${repo}#${pullNumber}`);
+    }
+
+    const data: CodeReviewJobData = {
+      provider,
+      owner,
+      repo,
+      installationId: pullRequest.installationId,
+      pullNumber,
+      headSha,
+      baseSha: pullRequest.baseRef,
+      paths: request.paths,
+      pinned: headSha !== pullRequest.headSha,
+      dryRun: request.dryRun ?? false,
+    };
+    const jobId = await this.queueService.addCodeReviewJob(data);
+
+    this.logger.log(`Queued ${data.dryRun ? 'dry-run ' : ''}review of ${owner}/${repo}#${pullNumber} at ${headSha.substring(0, 7)} via the API`);
+
+    return { jobId, ...data };
+  }
+
+  /** Reviews the commit of an earlier review again; null when the review does not exist */
+  async rerun(reviewId: string, dryRun?: boolean): Promise<QueuedReview | null> {
+    const review = await this.databaseService.getReview(reviewId);
+    if (!review) {
+      return null;
+    }
+
+    return await this.trigger({
+      provider: review.provider as ScmProviderName,
+      owner: review.owner,
+      repo: review.repo,
+      pullNumber: review.pullNumber,
+      sha: review.commitSha,
+      paths: review.paths ?? undefined,
+      dryRun: dryRun ?? review.dryRun,
+      installationId: review.installationId ?? undefined,
+    });
+  }
+
+  /** Whether `sha` is reachable from the pull request's head */
+  private async isOnPullRequest(request: ReviewRequest, sha: string, pullRequest: ScmPullRequest): Promise<boolean> {
+    const repository = { owner: request.owner, repo: request.repo, installationId: pullRequest.installationId };
+    return await this.scmService.get(request.provider).isAncestor(repository, sha, pullRequest.headSha);
+  }
+
+  private async loadOpenPullRequest(request: ReviewRequest): Promise<ScmPullRequest> {
+    const { owner, repo, pullNumber, installationId } = request;
+
+    let pullRequest: ScmPullRequest;
+    try {
+      pullRequest = await this.scmService.get(request.provider).getPullRequest({ owner, repo, installationId }, pullNumber);
+    } catch (error) {
+      throw new NotFoundException(`Could not load ${owner}/${repo}#${pullNumber}`);
+    }
+
+    if (!pullRequest.open) {
+      throw new ConflictException(`${owner}/${repo}#${pullNumber} is closed`);
+    }
+
+    return { ...pullRequest, installationId: pullRequest.installationId ?? installationId };
+  }
+}
@@ -0,0 +1,97 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Header,
+  HttpCode,
+  NotFoundException,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { minimatch } from 'minimatch';
+import { DatabaseService } from '../database/database.service';
+import { SarifService } from '../sarif/sarif.service';
+import { ReviewTriggerService } from './review-trigger.service';
+import { ListReviewsDto } from './dto/list-reviews.dto';
+import { ListFindingsDto } from './dto/list-findings.dto';
+import { TriggerReviewDto } from './dto/trigger-review.dto';
+import { RerunReviewDto } from './dto/rerun-review.dto';
+import { ApiKeyGuard } from '../../common/guards/api-key.guard';
+
+// Reviews expose private code and findings, so reading needs a key too
+@Controller('reviews')
+@UseGuards(ApiKeyGuard)
+export class ReviewsController {
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly sarifService: SarifService,
+    private readonly reviewTriggerService: ReviewTriggerService,
+  ) {}
+
+  @Get()
+  async listReviews(@Query() query: ListReviewsDto) {
+    const { page, limit, ...filters } = query;
+    const [items, total] = await this.databaseService.findReviews({
+      ...filters,
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return { items, total, page, limit };
+  }
+
+  @Post()
+  @HttpCode(202)
+  async triggerReview(@Body() body: TriggerReviewDto) {
+    return await this.reviewTriggerService.trigger(body);
+  }
+
+  @Post(':id/rerun')
+  @HttpCode(202)
+  async rerunReview(@Param('id', ParseUUIDPipe) id: string, @Body() body: RerunReviewDto) {
+    const queued = await this.reviewTriggerService.rerun(id, body.dryRun);
+    if (!queued) {
+      throw new NotFoundException(`Review ${id} not found`);
+    }
+
+    return queued;
+  }
+
+  @Get(':id')
+  async getReview(@Param('id', ParseUUIDPipe) id: string) {
+    const review = await this.databaseService.getReview(id);
+    if (!review) {
+      throw new NotFoundException(`Review ${id} not found`);
+    }
+
+    return review;
+  }
+
+  @Get(':id/findings')
+  async listFindings(@Param('id', ParseUUIDPipe) id: string, @Query() query: ListFindingsDto) {
+    if (!(await this.databaseService.reviewExists(id))) {
+      throw new NotFoundException(`Review ${id} not found`);
+    }
+
+    const { file, ...filters } = query;
+    const findings = await this.databaseService.getReviewFindings(id, filters);
+
+    return file
+      ? findings.filter(finding => finding.filePath === file || minimatch(finding.filePath, file, { dot: true }))
+      : findings;
+  }
+
+  @Get(':id/sarif')
+  @Header('Content-Type', 'application/sarif+json')
+  async getReviewSarif(@Param('id', ParseUUIDPipe) id: string) {
+    const sarif = await this.sarifService.forReview(id);
+    if (!sarif) {
+      throw new NotFoundException(`Review ${id} not found`);
+    }
+
+    return sarif;
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from '../database/database.module';
+import { QueueModule } from '../queue/queue.module';
+import { ScmModule } from '../scm/scm.module';
+import { SarifModule } from '../sarif/sarif.module';
+import { ReviewsController } from './reviews.controller';
+import { ReviewTriggerService } from './review-trigger.service';
+
+@Module({
+  imports: [DatabaseModule, QueueModule, ScmModule, SarifModule],
+  controllers: [ReviewsController],
+  providers: [ReviewTriggerService],
+})
+export class ReviewsModule {}
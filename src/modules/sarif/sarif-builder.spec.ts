@@ -0,0 +1,89 @@
+import { SARIF_SCHEMA, SarifFinding, sarifRuleId, toSarif } from './sarif-builder';
+
+const EVAL: SarifFinding = {
+  type: 'security',
+  severity: 'high',
+  message: 'eval() executes arbitrary code',
+  filePath: 'src/app.ts',
+  line: 12,
+  suggestion: 'Use JSON.parse',
+  ruleId: 'security/eval',
+  fingerprint: 'f1',
+  contextHash: 'c1',
+};
+
+const AI_BUG: SarifFinding = {
+  type: 'bug',
+  severity: 'medium',
+  message: 'Possible null dereference',
+  suggestion: '',
+  findingId: 'id-1',
+  status: 'open',
+};
+
+describe('sarifRuleId', () => {
+  it('uses the rule id, or the issue type for AI findings', () => {
+    expect(sarifRuleId(EVAL)).toBe('security/eval');
+    expect(sarifRuleId(AI_BUG)).toBe('ai/bug');
+  });
+});
+
+describe('toSarif', () => {
+  it('renders a single SARIF 2.1.0 run', () => {
+    const log = toSarif([EVAL], { repositoryUri: 'https://github.com/octo/app', commitSha: 'abc', category: 'lintelligence' });
+
+    expect(log.$schema).toBe(SARIF_SCHEMA);
+    expect(log.version).toBe('2.1.0');
+    expect(log.runs).toHaveLength(1);
+    expect(log.runs[0].tool.driver.name).toBe('Lintelligence');
+    expect(log.runs[0].automationDetails).toEqual({ id: 'lintelligence/' });
+    expect(log.runs[0].versionControlProvenance).toEqual([{ repositoryUri: 'https://github.com/octo/app', revisionId: 'abc' }]);
+    expect(log.runs[0].originalUriBaseIds).toHaveProperty('%SRCROOT%');
+  });
+
+  it('maps findings to results with locations and fingerprints', () => {
+    const [result] = toSarif([EVAL]).runs[0].results;
+
+    expect(result).toEqual({
+      ruleId: 'security/eval',
+      ruleIndex: 0,
+      level: 'error',
+      message: {
+        text: 'eval() executes arbitrary code\n\nSuggestion: Use JSON.parse',
+        markdown: 'eval() executes arbitrary code\n\n**Suggestion:** Use JSON.parse',
+      },
+      locations: [{
+        physicalLocation: {
+          artifactLocation: { uri: 'src/app.ts', uriBaseId: '%SRCROOT%' },
+          region: { startLine: 12 },
+        },
+      }],
+      partialFingerprints: { 'lintelligenceFinding/v1': 'f1', 'lintelligenceContext/v1': 'c1' },
+      properties: { type: 'security', severity: 'high' },
+    });
+  });
+
+  it('leaves out the location of findings without a file', () => {
+    const [result] = toSarif([AI_BUG]).runs[0].results;
+
+    expect(result.locations).toBeUndefined();
+    expect(result.level).toBe('warning');
+    expect(result.properties).toEqual({ type: 'bug', severity: 'medium', findingId: 'id-1', status: 'open' });
+  });
+
+  it('lists each rule once, with built-in metadata where known', () => {
+    const run = toSarif([EVAL, AI_BUG, { ...EVAL, line: 30 }]).runs[0];
+
+    expect(run.tool.driver.rules.map(rule => rule.id)).toEqual(['security/eval', 'ai/bug']);
+    expect(run.results.map(result => result.ruleIndex)).toEqual([0, 1, 0]);
+    expect(run.tool.driver.rules[0]).toMatchObject({
+      shortDescription: { text: 'eval() executes arbitrary code' },
+      defaultConfiguration: { level: 'error' },
+      properties: { tags: ['security', 'rule'], 'security-severity': '8.0' },
+    });
+    expect(run.tool.driver.rules[1]).toMatchObject({
+      shortDescription: { text: 'Likely bug found by AI review' },
+      properties: { tags: ['bug', 'ai'] },
+    });
+  });
+});
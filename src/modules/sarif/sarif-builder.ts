@@ -0,0 +1,188 @@
+import type { CodeIssue } from '../code-analysis/code-analysis.service';
+import { BUILTIN_RULES } from '../code-analysis/rules/builtin-rules';
+
+export const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const TOOL_NAME = 'Lintelligence';
+// Resolved by SARIF consumers to the repository root
+const SOURCE_ROOT = '%SRCROOT%';
+
+export type SarifLevel = 'error' | 'warning' | 'note';
+
+const SARIF_LEVELS: Record<CodeIssue['severity'], SarifLevel> = {
+  low: 'note',
+  medium: 'warning',
+  high: 'error',
+  critical: 'error',
+};
+
+// CVSS-style scores GitHub code scanning uses to rank security alerts
+const SECURITY_SEVERITY: Record<CodeIssue['severity'], string> = {
+  low: '3.0',
+  medium: '5.5',
+  high: '8.0',
+  critical: '9.5',
+};
+
+const AI_RULE_DESCRIPTIONS: Record<CodeIssue['type'], string> = {
+  bug: 'Likely bug found by AI review',
+  security: 'Security issue found by AI review',
+  performance: 'Performance issue found by AI review',
+  style: 'Style issue found by AI review',
+  'best-practice': 'Best-practice issue found by AI review',
+};
+
+/** A finding to export, optionally linked to its stored `ReviewComment` */
+export interface SarifFinding extends CodeIssue {
+  findingId?: string;
+  /** State of the finding's review thread */
+  status?: string;
+}
+
+/** Where the findings come from, recorded on the SARIF run */
+export interface SarifRunDetails {
+  /** e.g. https://github.com/owner/repo */
+  repositoryUri?: string;
+  commitSha?: string;
+  /** Distinguishes this analysis from others on the same commit, e.g. in code scanning */
+  category?: string;
+}
+
+export interface SarifMessage {
+  text: string;
+  markdown?: string;
+}
+
+export interface SarifLocation {
+  physicalLocation: {
+    artifactLocation: { uri: string; uriBaseId: string };
+    region?: { startLine: number };
+  };
+}
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: SarifMessage;
+  locations?: SarifLocation[];
+  partialFingerprints?: Record<string, string>;
+  properties: Record<string, unknown>;
+}
+
+export interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: SarifMessage;
+  help?: SarifMessage;
+  defaultConfiguration: { level: SarifLevel };
+  properties: Record<string, unknown>;
+}
+
+export interface SarifRun {
+  tool: { driver: { name: string; rules: SarifRule[] } };
+  automationDetails?: { id: string };
+  versionControlProvenance?: Array<{ repositoryUri: string; revisionId?: string }>;
+  originalUriBaseIds: Record<string, { description: SarifMessage }>;
+  results: SarifResult[];
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: SarifRun[];
+}
+
+/** The SARIF rule of a finding: its rule id, or its issue type for AI findings */
+export function sarifRuleId(issue: Pick<CodeIssue, 'ruleId' | 'type'>): string {
+  return issue.ruleId ?? `ai/${issue.type}`;
+}
+
+/**
+ * Renders findings as a single-run SARIF 2.1.0 log. Each rule id becomes a
+ * rule with metadata from the built-in rules where known, or else from its
+ * first finding. Findings without a file have no location.
+ */
+export function toSarif(findings: SarifFinding[], details: SarifRunDetails = {}): SarifLog {
+  const rules: SarifRule[] = [];
+  const ruleIndexes = new Map<string, number>();
+
+  const results = findings.map((finding): SarifResult => {
+    const ruleId = sarifRuleId(finding);
+    let ruleIndex = ruleIndexes.get(ruleId);
+    if (ruleIndex === undefined) {
+      ruleIndex = rules.push(toRule(ruleId, finding)) - 1;
+      ruleIndexes.set(ruleId, ruleIndex);
+    }
+
+    return {
+      ruleId,
+      ruleIndex,
+      level: SARIF_LEVELS[finding.severity],
+      message: finding.suggestion
+        ? {
+          text: `${finding.message}\n\nSuggestion: ${finding.suggestion}`,
+          markdown: `${finding.message}\n\n**Suggestion:** ${finding.suggestion}`,
+        }
+        : { text: finding.message },
+      ...(finding.filePath && {
+        locations: [{
+          physicalLocation: {
+            artifactLocation: { uri: finding.filePath, uriBaseId: SOURCE_ROOT },
+            ...(finding.line && { region: { startLine: finding.line } }),
+          },
+        }],
+      }),
+      ...((finding.fingerprint || finding.contextHash) && {
+        partialFingerprints: {
+          // Line-independent, so the result is tracked across commits that move it
+          ...(finding.fingerprint && { 'lintelligenceFinding/v1': finding.fingerprint }),
+          ...(finding.contextHash && { 'lintelligenceContext/v1': finding.contextHash }),
+        },
+      }),
+      properties: {
+        type: finding.type,
+        severity: finding.severity,
+        ...(finding.findingId && { findingId: finding.findingId }),
+        ...(finding.status && { status: finding.status }),
+      },
+    };
+  });
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [{
+      tool: { driver: { name: TOOL_NAME, rules } },
+      ...(details.category && { automationDetails: { id: `${details.category}/` } }),
+      ...(details.repositoryUri && {
+        versionControlProvenance: [{ repositoryUri: details.repositoryUri, revisionId: details.commitSha }],
+      }),
+      originalUriBaseIds: {
+        [SOURCE_ROOT]: { description: { text: 'The root of the repository' } },
+      },
+      results,
+    }],
+  };
+}
+
+function toRule(ruleId: string, finding: SarifFinding): SarifRule {
+  const builtin = finding.ruleId ? BUILTIN_RULES.find(rule => rule.id === finding.ruleId) : undefined;
+  const type = builtin?.type ?? finding.type;
+  const severity = builtin?.severity ?? finding.severity;
+  const description = finding.ruleId
+    ? builtin?.message ?? finding.message
+    : AI_RULE_DESCRIPTIONS[finding.type];
+  const help = finding.ruleId ? builtin?.suggestion ?? finding.suggestion : undefined;
+
+  return {
+    id: ruleId,
+    name: ruleId,
+    shortDescription: { text: description },
+    ...(help && { help: { text: help } }),
+    defaultConfiguration: { level: SARIF_LEVELS[severity] },
+    properties: {
+      tags: [type, finding.ruleId ? 'rule' : 'ai'],
+      ...(type === 'security' && { 'security-severity': SECURITY_SEVERITY[severity] }),
+    },
+  };
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from '../database/database.module';
+import { SarifService } from './sarif.service';
+
+@Module({
+  imports: [DatabaseModule],
+  providers: [SarifService],
+  exports: [SarifService],
+})
+export class SarifModule {}
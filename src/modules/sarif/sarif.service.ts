@@ -0,0 +1,55 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DatabaseService } from '../database/database.service';
+import { CodeIssue } from '../code-analysis/code-analysis.service';
+import { SarifFinding, SarifLog, toSarif } from './sarif-builder';
+import { Review, ReviewComment } from '../../entities';
+import { AppConfig } from '../../common/interfaces/config.interface';
+
+const SARIF_CATEGORY = 'lintelligence';
+
+@Injectable()
+export class SarifService {
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly configService: ConfigService<AppConfig, true>,
+  ) {}
+
+  /** The stored findings of a review as SARIF; null when the review does not exist */
+  async forReview(reviewId: string): Promise<SarifLog | null> {
+    const review = await this.databaseService.getReview(reviewId);
+    if (!review) {
+      return null;
+    }
+
+    return toSarif(review.comments.map(comment => this.toFinding(comment)), {
+      repositoryUri: this.repositoryUri(review),
+      commitSha: review.commitSha,
+      category: SARIF_CATEGORY,
+    });
+  }
+
+  private repositoryUri(review: Review): string {
+    const host = review.provider === 'gitlab'
+      ? this.configService.get('gitlab', { infer: true }).url
+      : 'https://github.com';
+    return `${host}/${review.owner}/${review.repo}`;
+  }
+
+  private toFinding(comment: ReviewComment): SarifFinding {
+    return {
+      findingId: comment.id,
+      status: comment.disputed ? 'disputed' : comment.status,
+      type: comment.issueType as CodeIssue['type'],
+      severity: comment.severity as CodeIssue['severity'],
+      message: comment.message,
+      suggestion: comment.suggestion,
+      // Summary-level findings are stored without a file
+      filePath: comment.filePath === 'unknown' ? undefined : comment.filePath,
+      line: comment.lineNumber ?? undefined,
+      ruleId: comment.ruleId ?? undefined,
+      fingerprint: comment.fingerprint ?? undefined,
+      contextHash: comment.contextHash ?? undefined,
+    };
+  }
+}
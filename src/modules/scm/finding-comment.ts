@@ -0,0 +1,22 @@
+import { findingMarker } from '../github/comment-markers';
+import type { ReviewFinding } from './scm-provider.interface';
+
+/** A fenced code block whose fence is longer than any backtick run in the code */
+export function fencedBlock(info: string, code: string): string {
+  const longestRun = Math.max(0, ...(code.match(/`+/g) ?? []).map(run => run.length));
+  const fence = '`'.repeat(Math.max(3, longestRun + 1));
+
+  return `${fence}${info}\n${code}\n${fence}`;
+}
+
+/**
+ * Body of an inline comment on a finding. `suggestion` is the host's
+ * one-click suggestion block for the finding's replacement, if any.
+ */
+export function formatFindingComment(finding: ReviewFinding, suggestion?: string): string {
+  return `**${finding.type.toUpperCase()}** (${finding.severity})
+
+${finding.message}
+
+**Suggestion:** ${finding.suggestion}${suggestion ? `\n\n${suggestion}` : ''}${finding.ruleId ? `\n\n<sub>Rule: \`${finding.ruleId}\`</sub>` : ''}${finding.findingId ? `\n\n${findingMarker(finding.findingId)}` : ''}`;
+}
@@ -0,0 +1,77 @@
+import type { CodeIssue } from '../code-analysis/code-analysis.service';
+import type { CheckRunResult, RepoRef, ReviewEvent } from '../github/github.service';
+import type { ParsedDiff } from '../../common/interfaces/diff.interface';
+import type { SummaryReport } from './summary-comment';
+
+export const SCM_PROVIDERS = ['github', 'gitlab'] as const;
+/** Where a repository is hosted */
+export type ScmProviderName = typeof SCM_PROVIDERS[number];
+
+/** A finding to post, linked to the `ReviewComment` it was stored as */
+export interface ReviewFinding extends CodeIssue {
+  findingId?: string;
+}
+
+export interface ReviewToPublish {
+  commitSha: string;
+  findings: ReviewFinding[];
+  /** Outcome requested from the host; ignored where reviews have no verdict */
+  event: ReviewEvent;
+}
+
+export interface PublishedReview {
+  /** Finding id -> id of the comment posted for it, where thread state is synced */
+  commentIds: Map<string, number>;
+  posted: number;
+  /** Ids of the findings posted inline */
+  postedFindingIds: string[];
+  /** Findings without a line in the diff */
+  skipped: number;
+  /** Findings the host rejected or that could not be posted */
+  failed: ReviewFinding[];
+}
+
+/** The state of a pull request needed to queue a review of it */
+export interface ScmPullRequest {
+  headSha: string;
+  /** Base commit, or the target branch on GitLab */
+  baseRef: string;
+  open: boolean;
+  /** GitHub App installation with access to the repository, when running as an App */
+  installationId?: number;
+}
+
+/** Progress of a review as shown on the reviewed commit */
+export type ScmStatus =
+  | { state: 'queued' }
+  | { state: 'in_progress' }
+  | ({ state: 'completed' } & CheckRunResult);
+
+/**
+ * The source-control operations a review needs. `number` is the pull request
+ * number on GitHub and the merge request iid on GitLab; `repository.owner` is
+ * the GitLab namespace, including any subgroups.
+ */
+export interface ScmProvider {
+  readonly name: ScmProviderName;
+
+  getPullRequest(repository: RepoRef, number: number): Promise<ScmPullRequest>;
+  getDiff(repository: RepoRef, number: number): Promise<ParsedDiff>;
+  getCompareDiff(repository: RepoRef, baseSha: string, headSha: string): Promise<ParsedDiff>;
+  isAncestor(repository: RepoRef, ancestorSha: string, headSha: string): Promise<boolean>;
+  /** Best common ancestor of the base branch and `headSha`; null when it cannot be determined */
+  getMergeBase(repository: RepoRef, baseRef: string, headSha: string): Promise<string | null>;
+  /** Null when the file does not exist at `ref` */
+  getFileContent(repository: RepoRef, path: string, ref: string): Promise<string | null>;
+
+  postInlineComments(repository: RepoRef, number: number, review: ReviewToPublish): Promise<PublishedReview>;
+  /** Creates or edits the single summary comment */
+  postSummary(repository: RepoRef, number: number, report: SummaryReport): Promise<void>;
+  postComment(repository: RepoRef, number: number, body: string): Promise<void>;
+  setStatus(repository: RepoRef, sha: string, status: ScmStatus): Promise<void>;
+  /**
+   * Publishes the open findings of the reviewed commit to the host's
+   * security dashboard, where supported and enabled
+   */
+  uploadFindings?(repository: RepoRef, number: number, commitSha: string, findings: ReviewFinding[]): Promise<void>;
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { ScmService } from './scm.service';
+import { GithubModule } from '../github/github.module';
+import { GitlabModule } from '../gitlab/gitlab.module';
+
+@Module({
+  imports: [GithubModule, GitlabModule],
+  providers: [ScmService],
+  exports: [ScmService],
+})
+export class ScmModule {}
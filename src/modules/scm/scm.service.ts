@@ -0,0 +1,22 @@
+import { Injectable } from '@nestjs/common';
+import { GithubScmProvider } from '../github/github-scm.provider';
+import { GitlabService } from '../gitlab/gitlab.service';
+import { ScmProvider, ScmProviderName } from './scm-provider.interface';
+
+@Injectable()
+export class ScmService {
+  private readonly providers: Record<ScmProviderName, ScmProvider>;
+
+  constructor(githubProvider: GithubScmProvider, gitlabService: GitlabService) {
+    this.providers = { github: githubProvider, gitlab: gitlabService };
+  }
+
+  /** Jobs queued without a provider are GitHub's */
+  get(name: ScmProviderName = 'github'): ScmProvider {
+    const provider = this.providers[name];
+    if (!provider) {
+      throw new Error(`Unsupported source control provider: ${name}`);
+    }
+    return provider;
+  }
+}
@@ -0,0 +1,116 @@
+import type { CodeIssue } from '../code-analysis/code-analysis.service';
+import { ISSUE_TYPES, SEVERITIES } from '../code-analysis/analysis-schema';
+import { SUMMARY_MARKER } from '../github/comment-markers';
+import { REVIEW_CONFIG_PATH } from '../review-config/review-config.interface';
+
+export type SummaryFinding = Pick<CodeIssue, 'type' | 'severity' | 'message' | 'filePath' | 'line'>;
+
+/** The contents of the pull request's summary comment for one review */
+export interface SummaryReport {
+  commitSha: string;
+  summary: string;
+  /** Postable findings of this review */
+  findings: SummaryFinding[];
+  positives: string[];
+  /** Comparison with the previous review; unset on the first one */
+  changes?: {
+    sinceSha: string;
+    added: SummaryFinding[];
+    fixed: SummaryFinding[];
+    stillOpen: SummaryFinding[];
+  };
+  /** Findings GitHub rejected as inline comments */
+  unposted: SummaryFinding[];
+  /** Problems with the repository's review config */
+  configErrors: string[];
+}
+
+// Keeps the comment readable on pull requests with many findings
+const MAX_LISTED_FINDINGS = 20;
+// Issue comments are limited to 65536 characters
+const MAX_COMMENT_LENGTH = 65000;
+
+export function formatSummaryComment(report: SummaryReport): string {
+  const sections = [
+    SUMMARY_MARKER,
+    `## AI Code Review Summary\n\n${report.summary}`,
+    `### Findings\n\n${formatFindingsTable(report.findings)}`,
+  ];
+
+  if (report.configErrors.length > 0) {
+    sections.push(formatConfigErrors(report.configErrors));
+  }
+
+  if (report.changes) {
+    const { sinceSha, added, fixed, stillOpen } = report.changes;
+    sections.push(`### Since the previous review (\`${sinceSha.substring(0, 7)}\`)
+
+| New | Fixed | Still open |
+|---:|---:|---:|
+| ${added.length} | ${fixed.length} | ${stillOpen.length} |${formatDetails('New findings', added)}${formatDetails('Fixed findings', fixed)}`);
+  }
+
+  if (report.unposted.length > 0) {
+    sections.push(`### Not posted inline\n\n${report.unposted.length} findings could not be posted as review comments:\n\n${formatList(report.unposted)}`);
+  }
+
+  if (report.positives.length > 0) {
+    sections.push(`### What looks good\n\n${report.positives.map(positive => `- ${positive}`).join('\n')}`);
+  }
+
+  sections.push(`---\n*Analyzed commit \`${report.commitSha.substring(0, 7)}\`. This comment is updated on every review.*`);
+
+  const body = sections.join('\n\n');
+  return body.length > MAX_COMMENT_LENGTH ? `${body.substring(0, MAX_COMMENT_LENGTH)}…` : body;
+}
+
+/** Shown on the summary comment and check run rather than posted on every review */
+export function formatConfigErrors(errors: string[]): string {
+  return `### Configuration problems
+
+\`${REVIEW_CONFIG_PATH}\` on the base branch has problems. The affected settings fall back to their defaults:
+
+${errors.map(error => `- ${error}`).join('\n')}`;
+}
+
+/** Counts by type and severity, most severe first */
+function formatFindingsTable(findings: SummaryFinding[]): string {
+  if (findings.length === 0) {
+    return 'No findings.';
+  }
+
+  const severities = [...SEVERITIES].reverse();
+  const count = (type?: string, severity?: string) => findings.filter(finding =>
+    (!type || finding.type === type) && (!severity || finding.severity === severity),
+  ).length;
+
+  const rows = ISSUE_TYPES
+    .filter(type => count(type) > 0)
+    .map(type => `| ${type} | ${severities.map(severity => count(type, severity)).join(' | ')} | ${count(type)} |`);
+
+  return [
+    `| Type | ${severities.join(' | ')} | Total |`,
+    `|---|${severities.map(() => '---:').join('|')}|---:|`,
+    ...rows,
+    `| **Total** | ${severities.map(severity => `**${count(undefined, severity)}**`).join(' | ')} | **${findings.length}** |`,
+  ].join('\n');
+}
+
+function formatDetails(title: string, findings: SummaryFinding[]): string {
+  if (findings.length === 0) return '';
+
+  return `\n\n<details>\n<summary>${title}</summary>\n\n${formatList(findings)}\n</details>`;
+}
+
+function formatList(findings: SummaryFinding[]): string {
+  const lines = findings.slice(0, MAX_LISTED_FINDINGS).map(finding => {
+    const location = finding.filePath ? `\`${finding.filePath}${finding.line ? `:${finding.line}` : ''}\` ` : '';
+    return `- ${location}**${finding.type}** (${finding.severity}): ${finding.message}`;
+  });
+
+  if (findings.length > lines.length) {
+    lines.push(`- …and ${findings.length - lines.length} more`);
+  }
+
+  return lines.join('\n');
+}
@@ -1,24 +1,29 @@
 import { Controller, Get } from '@nestjs/common';
 import { DatabaseService } from '../database/database.service';
 import { QueueService } from '../queue/queue.service';
+import { AnalysisMetricsService } from '../code-analysis/analysis-metrics.service';
 
 @Controller('stats')
 export class StatsController {
   constructor(
     private readonly databaseService: DatabaseService,
     private readonly queueService: QueueService,
+    private readonly analysisMetricsService: AnalysisMetricsService,
   ) {}
 
   @Get()
   async getStats() {
-    const [reviewStats, queueStats] = await Promise.all([
+    const [reviewStats, findingStats, queueStats] = await Promise.all([
       this.databaseService.getReviewStats(),
+      this.databaseService.getFindingStats(),
       this.queueService.getQueueStats(),
     ]);
 
     return {
       reviews: reviewStats,
+      findings: findingStats,
       queue: queueStats,
+      analysis: this.analysisMetricsService.getMetrics(),
       timestamp: new Date().toISOString(),
     };
   }
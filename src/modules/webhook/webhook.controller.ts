@@ -1,4 +1,5 @@
-import { Controller, Post, Body, Headers, HttpCode } from '@nestjs/common';
+import { Controller, Post, Body, Headers, HttpCode, Req, RawBodyRequest } from '@nestjs/common';
+import { Request } from 'express';
 import { WebhookService } from './webhook.service';
 
 @Controller('webhook')
@@ -8,10 +9,32 @@ export class WebhookController {
   @Post('github')
   @HttpCode(200)
   async handleGithubWebhook(
+    @Req() request: RawBodyRequest<Request>,
     @Body() payload: any,
     @Headers('x-hub-signature-256') signature: string,
+    @Headers('x-github-delivery') deliveryId: string,
+    @Headers('x-github-event') event: string,
   ) {
-    return await this.webhookService.processGithubWebhook(payload, signature);
+    return await this.webhookService.processGithubWebhook(payload, {
+      rawBody: request.rawBody,
+      signature,
+      id: deliveryId,
+      event,
+    });
   }
-}
 
+  @Post('gitlab')
+  @HttpCode(200)
+  async handleGitlabWebhook(
+    @Body() payload: any,
+    @Headers('x-gitlab-token') token: string,
+    @Headers('x-gitlab-event-uuid') eventId: string,
+    @Headers('x-gitlab-event') event: string,
+  ) {
+    return await this.webhookService.processGitlabWebhook(payload, {
+      token,
+      id: eventId,
+      event,
+    });
+  }
+}
@@ -4,9 +4,10 @@ import { WebhookService } from './webhook.service';
 import { StatsController } from './stats.controller';
 import { QueueModule } from '../queue/queue.module';
 import { DatabaseModule } from '../database/database.module';
+import { CodeAnalysisModule } from '../code-analysis/code-analysis.module';
 
 @Module({
-  imports: [QueueModule, DatabaseModule],
+  imports: [QueueModule, DatabaseModule, CodeAnalysisModule],
   controllers: [WebhookController, StatsController],
   providers: [WebhookService],
   exports: [WebhookService],
@@ -0,0 +1,130 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Queue } from 'bull';
+import * as crypto from 'crypto';
+import { WebhookService } from './webhook.service';
+import { DatabaseService } from '../database/database.service';
+import { QueueService } from '../queue/queue.service';
+import { AppConfig } from '../../common/interfaces/config.interface';
+import configuration from '../../common/config/configuration';
+
+const SECRET = 'webhook-secret';
+
+const PAYLOAD = {
+  action: 'opened',
+  repository: { name: 'api', owner: { login: 'acme' } },
+  pull_request: { number: 7, head: { sha: 'head' }, base: { sha: 'base' }, labels: [], draft: false },
+};
+
+function sign(body: Buffer, secret = SECRET): string {
+  return 'sha256=' + crypto.createHmac('sha256', secret).update(body).digest('hex');
+}
+
+function setup(options: { secret?: string; nodeEnv?: string } = {}) {
+  const defaults = configuration();
+  const config: Record<string, unknown> = {
+    ...defaults,
+    github: { ...defaults.github, webhookSecret: options.secret ?? SECRET },
+    nodeEnv: options.nodeEnv ?? 'development',
+  };
+  const queue = { add: jest.fn().mockResolvedValue({}) };
+  const queueService = { addCodeReviewJob: jest.fn().mockResolvedValue('1') };
+  const database = {
+    recordDelivery: jest.fn().mockResolvedValue(true),
+    removeDelivery: jest.fn().mockResolvedValue(undefined),
+  };
+
+  const service = new WebhookService(
+    queue as unknown as Queue,
+    database as unknown as DatabaseService,
+    queueService as unknown as QueueService,
+    { get: (key: string) => config[key] } as unknown as ConfigService<AppConfig, true>,
+  );
+
+  return { service, queue, queueService, database };
+}
+
+describe('WebhookService', () => {
+  const body = Buffer.from(JSON.stringify(PAYLOAD));
+
+  describe('signature verification', () => {
+    it('accepts a signature computed over the raw body', async () => {
+      const { service } = setup();
+
+      await expect(service.processGithubWebhook(PAYLOAD, { rawBody: body, signature: sign(body), event: 'pull_request' }))
+        .resolves.toBeDefined();
+    });
+
+    it('rejects a signature of a different body', async () => {
+      const { service } = setup();
+      // The same JSON, formatted differently, is not what GitHub signed
+      const reformatted = Buffer.from(JSON.stringify(PAYLOAD, null, 2));
+
+      await expect(service.processGithubWebhook(PAYLOAD, { rawBody: body, signature: sign(reformatted), event: 'pull_request' }))
+        .rejects.toThrow(UnauthorizedException);
+    });
+
+    it('rejects a signature made with another secret', async () => {
+      const { service } = setup();
+
+      await expect(service.processGithubWebhook(PAYLOAD, { rawBody: body, signature: sign(body, 'other'), event: 'pull_request' }))
+        .rejects.toThrow(UnauthorizedException);
+    });
+
+    it('rejects signatures of the wrong length without comparing them', async () => {
+      const { service } = setup();
+      const timingSafeEqual = jest.spyOn(crypto, 'timingSafeEqual');
+
+      await expect(service.processGithubWebhook(PAYLOAD, { rawBody: body, signature: 'sha256=abc', event: 'pull_request' }))
+        .rejects.toThrow(UnauthorizedException);
+      expect(timingSafeEqual).not.toHaveBeenCalled();
+      timingSafeEqual.mockRestore();
+    });
+
+    it('rejects deliveries without a signature or body', async () => {
+      const { service } = setup();
+
+      await expect(service.processGithubWebhook(PAYLOAD, { rawBody: body, event: 'pull_request' })).rejects.toThrow(UnauthorizedException);
+      await expect(service.processGithubWebhook(PAYLOAD, { signature: sign(body), event: 'pull_request' })).rejects.toThrow(UnauthorizedException);
+    });
+  });
+
+  describe('without a webhook secret', () => {
+    it('refuses to start in production', () => {
+      const { service } = setup({ secret: '', nodeEnv: 'production' });
+
+      expect(() => service.onModuleInit()).toThrow('GITHUB_WEBHOOK_SECRET must be set in production');
+    });
+
+    it('skips verification in development', async () => {
+      const { service } = setup({ secret: '' });
+
+      expect(() => service.onModuleInit()).not.toThrow();
+      await expect(service.processGithubWebhook(PAYLOAD, { rawBody: body, event: 'pull_request' })).resolves.toBeDefined();
+    });
+  });
+
+  describe('redelivery', () => {
+    it('handles a delivery once and acknowledges redeliveries', async () => {
+      const { service, database } = setup();
+      const delivery = { rawBody: body, signature: sign(body), id: 'delivery-1', event: 'pull_request' };
+
+      await service.processGithubWebhook(PAYLOAD, delivery);
+      database.recordDelivery.mockResolvedValue(false);
+      const result = await service.processGithubWebhook(PAYLOAD, delivery);
+
+      expect(database.recordDelivery).toHaveBeenCalledWith('delivery-1', 'pull_request');
+      expect(result).toEqual({ message: 'Delivery already processed' });
+    });
+
+    it('forgets a delivery whose handling failed so a redelivery can retry it', async () => {
+      const { service, queue, queueService, database } = setup();
+      queue.add.mockRejectedValue(new Error('Redis unavailable'));
+      queueService.addCodeReviewJob.mockRejectedValue(new Error('Redis unavailable'));
+
+      await expect(service.processGithubWebhook(PAYLOAD, { rawBody: body, signature: sign(body), id: 'delivery-2', event: 'pull_request' }))
+        .rejects.toThrow('Redis unavailable');
+      expect(database.removeDelivery).toHaveBeenCalledWith('delivery-2');
+    });
+  });
+});
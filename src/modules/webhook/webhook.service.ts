@@ -1,57 +1,369 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, OnModuleInit, UnauthorizedException } from '@nestjs/common';
 import { InjectQueue } from '@nestjs/bull';
+import { ConfigService } from '@nestjs/config';
 import { Queue } from 'bull';
 import * as crypto from 'crypto';
+import { DatabaseService } from '../database/database.service';
+import { QueueService } from '../queue/queue.service';
+import { parseCommand } from '../chatops/command-parser';
+import { CHATOPS_JOB, ChatOpsJobData, THREAD_REPLY_JOB, ThreadReplyJobData } from '../chatops/chatops.interface';
+import { isBotComment } from '../github/comment-markers';
+import { AppConfig } from '../../common/interfaces/config.interface';
+
+/** Delivery details GitHub sends alongside the payload */
+export interface GithubDelivery {
+  /** The exact request bytes the signature was computed over */
+  rawBody?: Buffer;
+  signature?: string;
+  /** `X-GitHub-Delivery`, unique per event and reused on redelivery */
+  id?: string;
+  event?: string;
+}
+
+/** Delivery details GitLab sends alongside the payload */
+export interface GitlabDelivery {
+  /** `X-Gitlab-Token`, the secret configured on the webhook */
+  token?: string;
+  /** `X-Gitlab-Event-UUID`, unique per event */
+  id?: string;
+  event?: string;
+}
+
+export interface WebhookResult {
+  message: string;
+}
+
+/** Requests a review, including of draft PRs */
+export const REVIEW_LABEL = 'ai-review';
+/** Suppresses reviews of the PR while present */
+export const SKIP_LABEL = 'skip-ai-review';
+
+const REVIEW_ACTIONS = ['opened', 'reopened', 'synchronize', 'ready_for_review'];
+const MERGE_REQUEST_REVIEW_ACTIONS = ['open', 'reopen'];
 
 @Injectable()
-export class WebhookService {
+export class WebhookService implements OnModuleInit {
   private readonly logger = new Logger(WebhookService.name);
 
   constructor(
     @InjectQueue('code-review') private codeReviewQueue: Queue,
+    private readonly databaseService: DatabaseService,
+    private readonly queueService: QueueService,
+    private readonly configService: ConfigService<AppConfig, true>,
   ) {}
 
-  async processGithubWebhook(payload: any, signature: string): Promise<any> {
-    this.logger.log(`Processing GitHub webhook: ${payload.action}`);
+  onModuleInit(): void {
+    const { webhookSecret } = this.configService.get('github', { infer: true });
+
+    if (!webhookSecret && this.configService.get('nodeEnv', { infer: true }) === 'production') {
+      throw new Error('GITHUB_WEBHOOK_SECRET must be set in production');
+    }
+
+    const gitlab = this.configService.get('gitlab', { infer: true });
+    if (gitlab.token && !gitlab.webhookSecret && this.configService.get('nodeEnv', { infer: true }) === 'production') {
+      throw new Error('GITLAB_WEBHOOK_SECRET must be set in production when GitLab is configured');
+    }
+  }
+
+  async processGithubWebhook(payload: any, delivery: GithubDelivery): Promise<WebhookResult> {
+    this.logger.log(`Processing GitHub webhook: ${delivery.event ?? 'unknown'}${payload.action ? `.${payload.action}` : ''}`);
 
     // Verify webhook signature
-    if (!this.verifySignature(payload, signature)) {
-      throw new Error('Invalid webhook signature');
+    if (!this.verifySignature(delivery.rawBody, delivery.signature)) {
+      throw new UnauthorizedException('Invalid webhook signature');
     }
 
-    // Handle pull request events
-    if (payload.action === 'opened' || payload.action === 'synchronize') {
-      await this.handlePullRequestEvent(payload);
+    return await this.handleOnce(delivery.id, delivery.event, () => this.routeEvent(delivery.event, payload));
+  }
+
+  async processGitlabWebhook(payload: any, delivery: GitlabDelivery): Promise<WebhookResult> {
+    this.logger.log(`Processing GitLab webhook: ${delivery.event ?? 'unknown'}${payload.object_attributes?.action ? `.${payload.object_attributes.action}` : ''}`);
+
+    if (!this.verifyGitlabToken(delivery.token)) {
+      throw new UnauthorizedException('Invalid webhook token');
     }
 
-    return { message: 'Webhook processed successfully' };
+    return await this.handleOnce(delivery.id, delivery.event, async () => {
+      if (delivery.event !== 'Merge Request Hook') {
+        return { message: `Ignored ${delivery.event ?? 'unknown'} event` };
+      }
+      return await this.handleMergeRequestEvent(payload);
+    });
+  }
+
+  /**
+   * Acknowledges redeliveries without handling the same event twice. A
+   * delivery whose handling fails is forgotten so a redelivery can retry it.
+   */
+  private async handleOnce(
+    deliveryId: string | undefined,
+    event: string | undefined,
+    handle: () => Promise<WebhookResult>,
+  ): Promise<WebhookResult> {
+    if (deliveryId && !(await this.databaseService.recordDelivery(deliveryId, event))) {
+      this.logger.log(`Ignoring duplicate delivery ${deliveryId}`);
+      return { message: 'Delivery already processed' };
+    }
+
+    try {
+      return await handle();
+    } catch (error) {
+      if (deliveryId) {
+        await this.databaseService.removeDelivery(deliveryId);
+      }
+      throw error;
+    }
+  }
+
+  private async routeEvent(event: string | undefined, payload: any): Promise<WebhookResult> {
+    switch (event) {
+      case 'ping':
+        return this.handlePing(payload);
+      case 'installation':
+        return this.handleInstallationEvent(payload);
+      case 'pull_request':
+        return await this.handlePullRequestEvent(payload);
+      case 'issue_comment':
+      case 'pull_request_review_comment':
+        return await this.handleCommentEvent(event, payload);
+      default:
+        return { message: `Ignored ${event ?? 'unknown'} event` };
+    }
   }
 
-  private verifySignature(payload: any, signature: string): boolean {
-    const secret = process.env.GITHUB_WEBHOOK_SECRET;
-    if (!secret) {
+  private verifySignature(rawBody: Buffer | undefined, signature: string | undefined): boolean {
+    const { webhookSecret } = this.configService.get('github', { infer: true });
+    if (!webhookSecret) {
       this.logger.warn('No webhook secret configured');
-      return true; // Skip verification in development
+      return true; // Skip verification in development; refused at startup in production
     }
 
-    const hmac = crypto.createHmac('sha256', secret);
-    const digest = 'sha256=' + hmac.update(JSON.stringify(payload)).digest('hex');
+    if (!rawBody || !signature) {
+      return false;
+    }
+
+    const hmac = crypto.createHmac('sha256', webhookSecret);
+    const expected = Buffer.from('sha256=' + hmac.update(rawBody).digest('hex'));
+    const received = Buffer.from(signature);
+
+    // timingSafeEqual throws on buffers of different lengths
+    return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+  }
+
+  private verifyGitlabToken(token: string | undefined): boolean {
+    const { webhookSecret } = this.configService.get('gitlab', { infer: true });
+    if (!webhookSecret) {
+      // Without GitLab configured, production accepts no GitLab webhooks
+      this.logger.warn('No GitLab webhook secret configured');
+      return this.configService.get('nodeEnv', { infer: true }) !== 'production';
+    }
+
+    if (!token) {
+      return false;
+    }
+
+    const expected = Buffer.from(webhookSecret);
+    const received = Buffer.from(token);
+
+    return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+  }
+
+  private handlePing(payload: any): WebhookResult {
+    this.logger.log(`Received ping for hook ${payload.hook_id}`);
+    return { message: 'pong' };
+  }
+
+  private handleInstallationEvent(payload: any): WebhookResult {
+    const account = payload.installation?.account?.login ?? 'unknown account';
+    this.logger.log(`GitHub App installation ${payload.installation?.id} ${payload.action} for ${account}`);
+
+    return { message: `Installation ${payload.action}` };
+  }
+
+  private async handlePullRequestEvent(payload: any): Promise<WebhookResult> {
+    const action: string = payload.action;
+
+    if (REVIEW_ACTIONS.includes(action)) {
+      return await this.queueReview(payload);
+    }
+
+    if (action === 'labeled' && payload.label?.name === REVIEW_LABEL) {
+      return await this.queueReview(payload);
+    }
+
+    if (action === 'closed' || (action === 'labeled' && payload.label?.name === SKIP_LABEL)) {
+      return await this.cancelReviews(payload);
+    }
 
-    return crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(digest));
+    return { message: `Ignored pull_request.${action} event` };
   }
 
-  private async handlePullRequestEvent(payload: any): Promise<void> {
+  /**
+   * Queues ChatOps commands from new comments on pull requests, either on
+   * the conversation or on a review thread, and replies on review threads
+   * for the bot to answer
+   */
+  private async handleCommentEvent(event: string, payload: any): Promise<WebhookResult> {
+    const comment = payload.comment;
+    const pullNumber = payload.pull_request?.number ?? (payload.issue?.pull_request ? payload.issue.number : undefined);
+
+    // Issue comments on plain issues, edits, and bot comments (including our own replies)
+    if (
+      payload.action !== 'created' ||
+      pullNumber === undefined ||
+      comment.user?.type === 'Bot' ||
+      isBotComment(comment.body ?? '')
+    ) {
+      return { message: `Ignored ${event}.${payload.action} event` };
+    }
+
+    const command = parseCommand(comment.body ?? '');
+    if (!command) {
+      return await this.queueThreadReply(event, payload, pullNumber);
+    }
+
+    const data: ChatOpsJobData = {
+      owner: payload.repository.owner.login,
+      repo: payload.repository.name,
+      installationId: payload.installation?.id,
+      pullNumber,
+      author: comment.user.login,
+      command,
+      threadCommentId: event === 'pull_request_review_comment' ? comment.in_reply_to_id ?? comment.id : undefined,
+    };
+    await this.codeReviewQueue.add(CHATOPS_JOB, data);
+
+    this.logger.log(`Queued /${command.name} for PR #${pullNumber}`);
+
+    return { message: `Command /${command.name} queued` };
+  }
+
+  private async queueThreadReply(event: string, payload: any, pullNumber: number): Promise<WebhookResult> {
+    const comment = payload.comment;
+    if (event !== 'pull_request_review_comment' || !comment.in_reply_to_id) {
+      return { message: 'No command found' };
+    }
+
+    // Whether the thread is one of ours is checked when the job runs
+    const data: ThreadReplyJobData = {
+      owner: payload.repository.owner.login,
+      repo: payload.repository.name,
+      installationId: payload.installation?.id,
+      pullNumber,
+      author: comment.user.login,
+      threadCommentId: comment.in_reply_to_id,
+    };
+    await this.codeReviewQueue.add(THREAD_REPLY_JOB, data);
+
+    return { message: 'Thread reply queued' };
+  }
+
+  private async queueReview(payload: any): Promise<WebhookResult> {
     const pullRequest = payload.pull_request;
+    const labels: string[] = (pullRequest.labels ?? []).map((label: { name: string }) => label.name);
+
+    if (labels.includes(SKIP_LABEL)) {
+      return { message: `Skipped: PR is labeled ${SKIP_LABEL}` };
+    }
+
+    // Drafts are only reviewed on request
+    if (pullRequest.draft && !labels.includes(REVIEW_LABEL)) {
+      return { message: 'Skipped: PR is a draft' };
+    }
 
     // Add job to queue for processing
-    await this.codeReviewQueue.add('analyze-pull-request', {
+    await this.queueService.addCodeReviewJob({
       owner: payload.repository.owner.login,
       repo: payload.repository.name,
       pullNumber: pullRequest.number,
       headSha: pullRequest.head.sha,
       baseSha: pullRequest.base.sha,
+      // Present when the agent runs as a GitHub App
+      installationId: payload.installation?.id,
     });
 
     this.logger.log(`Queued code review for PR #${pullRequest.number}`);
+
+    return { message: 'Review queued' };
+  }
+
+  private async cancelReviews(payload: any): Promise<WebhookResult> {
+    const cancelled = await this.queueService.cancelPullRequestJobs(
+      payload.repository.owner.login,
+      payload.repository.name,
+      payload.pull_request.number,
+    );
+
+    return { message: `Cancelled ${cancelled} review jobs` };
+  }
+
+  /**
+   * Reviews merge requests when opened, reopened, updated with new commits,
+   * marked ready or labeled for review; cancels reviews when they close,
+   * merge or get the skip label
+   */
+  private async handleMergeRequestEvent(payload: any): Promise<WebhookResult> {
+    const attributes = payload.object_attributes;
+    const action: string = attributes.action;
+    const labelChange = payload.changes?.labels;
+    const addedLabels: string[] = labelChange
+      ? labelChange.current
+        .map((label: { title: string }) => label.title)
+        .filter((title: string) => !labelChange.previous.some((label: { title: string }) => label.title === title))
+      : [];
+
+    if (action === 'close' || action === 'merge' || addedLabels.includes(SKIP_LABEL)) {
+      const { owner, repo } = this.gitlabRepository(payload);
+      const cancelled = await this.queueService.cancelPullRequestJobs(owner, repo, attributes.iid, 'gitlab');
+      return { message: `Cancelled ${cancelled} review jobs` };
+    }
+
+    // Updates also fire for title and description edits; only new commits,
+    // leaving draft and the review label warrant a review
+    const markedReady = payload.changes?.draft?.previous === true && payload.changes.draft.current === false;
+    if (
+      MERGE_REQUEST_REVIEW_ACTIONS.includes(action) ||
+      (action === 'update' && (attributes.oldrev || markedReady || addedLabels.includes(REVIEW_LABEL)))
+    ) {
+      return await this.queueMergeRequestReview(payload);
+    }
+
+    return { message: `Ignored merge_request.${action} event` };
+  }
+
+  private async queueMergeRequestReview(payload: any): Promise<WebhookResult> {
+    const attributes = payload.object_attributes;
+    const labels: string[] = (payload.labels ?? []).map((label: { title: string }) => label.title);
+
+    if (labels.includes(SKIP_LABEL)) {
+      return { message: `Skipped: MR is labeled ${SKIP_LABEL}` };
+    }
+
+    // Drafts are only reviewed on request
+    if ((attributes.draft ?? attributes.work_in_progress) && !labels.includes(REVIEW_LABEL)) {
+      return { message: 'Skipped: MR is a draft' };
+    }
+
+    const { owner, repo } = this.gitlabRepository(payload);
+    await this.queueService.addCodeReviewJob({
+      provider: 'gitlab',
+      owner,
+      repo,
+      pullNumber: attributes.iid,
+      headSha: attributes.last_commit.id,
+      // GitLab does not send the base commit; the config is read from the target branch
+      baseSha: attributes.target_branch,
+    });
+
+    this.logger.log(`Queued code review for MR !${attributes.iid}`);
+
+    return { message: 'Review queued' };
+  }
+
+  /** Splits `group/subgroup/project` into namespace and project path */
+  private gitlabRepository(payload: any): { owner: string; repo: string } {
+    const path: string = payload.project.path_with_namespace;
+    const separator = path.lastIndexOf('/');
+    return { owner: path.substring(0, separator), repo: path.substring(separator + 1) };
   }
-}
\ No newline at end of file
+}